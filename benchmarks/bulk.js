@@ -0,0 +1,117 @@
+/**
+ * Compares bulkCreate / bulkUpdate with the implementation they replaced.
+ *
+ *   DATABASE_URL=postgres://localhost/peculiar_bench npm run bench
+ *
+ * Every run happens inside a transaction that is rolled back, so the database is left as found.
+ */
+require('reflect-metadata');
+const {
+    Column,
+    ConnectionPoolManager,
+    Entity,
+    EntityRepository,
+    Logger,
+    PrimaryGeneratedColumn,
+    TransactionManager
+} = require('../dist');
+
+const SIZES = (process.env.BENCH_SIZES || '1000,5000,20000').split(',').map(Number);
+
+class BenchItem { }
+Reflect.decorate([Entity({ name: 'peculiar_bench_items' })], BenchItem);
+Reflect.decorate([PrimaryGeneratedColumn('increment')], BenchItem.prototype, 'id');
+Reflect.decorate([Column({ type: 'text' })], BenchItem.prototype, 'name');
+Reflect.decorate([Column({ type: 'integer' })], BenchItem.prototype, 'qty');
+Reflect.decorate([Column({ type: 'numeric', precision: 10, scale: 2 })], BenchItem.prototype, 'price');
+Reflect.decorate([Column({ type: 'timestamptz' })], BenchItem.prototype, 'updatedAt');
+
+/** The previous implementation: one statement, columns taken from the first entity, CASE per row and column. */
+class LegacyRepository extends EntityRepository {
+    async legacyBulkCreate(entities) {
+        const keys = Object.keys(entities[0]);
+        const values = [];
+        const rows = entities.map((entity, row) => {
+            keys.forEach(key => values.push(entity[key]));
+            return `(${keys.map((_, i) => `$${row * keys.length + i + 1}`).join(', ')})`;
+        });
+        const query = `INSERT INTO ${this.qualifiedTableName} (${keys.map(key => this.quoteColumn(key)).join(', ')}) VALUES ${rows.join(', ')} RETURNING *`;
+        return this.mapRows((await this.executeQuery(query, values)).rows);
+    }
+
+    async legacyBulkUpdate(entities) {
+        const { updateClause, values } = this.buildBulkUpdateClause(entities);
+        const { whereClause, values: idValues } = this.buildWhereInClause(entities.map(entity => entity.id), values.length + 1);
+        const query = `UPDATE ${this.qualifiedTableName} SET ${updateClause} ${whereClause} RETURNING *`;
+        return this.mapRows((await this.executeQuery(query, [...values, ...idValues])).rows);
+    }
+}
+
+function makeItems(count) {
+    return Array.from({ length: count }, (_, i) => ({
+        name: `item ${i}`,
+        qty: i,
+        price: (i % 1000) / 10,
+        updatedAt: new Date()
+    }));
+}
+
+/** Times `run` only; rows it needs are created by `prepare` in the same transaction. */
+async function measure(transactionManager, run, prepare = async () => undefined) {
+    await transactionManager.beginTransaction();
+    try {
+        const prepared = await prepare();
+        const started = process.hrtime.bigint();
+        await run(prepared);
+        return `${(Number(process.hrtime.bigint() - started) / 1e6).toFixed(0)} ms`;
+    } catch (error) {
+        return `failed (${error.message.slice(0, 60)})`;
+    } finally {
+        await transactionManager.rollback();
+    }
+}
+
+async function main() {
+    if (!process.env.DATABASE_URL) {
+        console.error('Set DATABASE_URL to a scratch database to run the benchmarks.');
+        process.exit(1);
+    }
+
+    // Query logging would dominate the timings.
+    Logger.write = () => { };
+
+    const poolManager = new ConnectionPoolManager({ connectionString: process.env.DATABASE_URL });
+    const transactionManager = new TransactionManager(poolManager);
+    const repository = new LegacyRepository(transactionManager, BenchItem);
+
+    const setup = await transactionManager.getStandaloneClient();
+    await setup.query(`CREATE TABLE IF NOT EXISTS peculiar_bench_items (
+        id serial PRIMARY KEY, name text, qty integer, price numeric(10, 2), "updatedAt" timestamptz
+    )`);
+    setup.release();
+
+    const results = [];
+    for (const size of SIZES) {
+        const items = makeItems(size);
+        const seed = async () => (await repository.bulkCreate(items))
+            .map((item, i) => ({ id: item.id, qty: item.qty + 1, price: i % 7, name: `renamed ${i}` }));
+
+        results.push({
+            rows: size,
+            'legacy insert': await measure(transactionManager, () => repository.legacyBulkCreate(items)),
+            'bulkCreate': await measure(transactionManager, () => repository.bulkCreate(items)),
+            'legacy update': await measure(transactionManager, changes => repository.legacyBulkUpdate(changes), seed),
+            'bulkUpdate': await measure(transactionManager, changes => repository.bulkUpdate(changes), seed)
+        });
+    }
+
+    console.table(results);
+
+    transactionManager.dispose();
+    await poolManager.dispose();
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,22 @@
+import { TransactionManager } from '../connection/TransactionManager';
+
+export type Actor = string | number;
+
+/** Returns the user a write is made for, or `null` when there is none. */
+export type ActorProvider = (transactionManager: TransactionManager) => Actor | null | undefined;
+
+const transactionActor: ActorProvider = transactionManager => transactionManager.getActor();
+
+let actorProvider: ActorProvider = transactionActor;
+
+/**
+ * Replaces how `@CreatedBy` and `@UpdatedBy` find the acting user, for example by reading
+ * an `AsyncLocalStorage` store. `null` restores the default, `TransactionManager.getActor()`.
+ */
+export function setActorProvider(provider: ActorProvider | null): void {
+    actorProvider = provider || transactionActor;
+}
+
+export function resolveActor(transactionManager: TransactionManager): Actor | null {
+    return actorProvider(transactionManager) ?? null;
+}
@@ -0,0 +1,82 @@
+import { ColumnMetadata, formatTableName, getPrimaryColumns, TableMetadata } from '../decorators';
+import { OrmError } from '../errors/OrmError';
+import { quoteIdentifier, quoteLiteral } from '../utils/Identifier';
+
+/** Transaction-local setting through which repositories pass the actor to history triggers. */
+export const ACTOR_SETTING = 'peculiar.actor';
+
+export type HistoryOperation = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface HistoryEntry<T> {
+    operation: HistoryOperation;
+    /** Start of the transaction that made the change, the same time `CURRENT_TIMESTAMP` returns. */
+    changedAt: Date;
+    /** The actor of the write, as a string; `null` for writes without one, such as raw SQL. */
+    actor: string | null;
+    /** The row before the change; `null` for inserts. */
+    before: T | null;
+    /** The row after the change; `null` for deletes. */
+    after: T | null;
+}
+
+/**
+ * Renders the JSON object identifying a row in the history table, keyed by primary key
+ * column names. `values` are SQL expressions in primary key order, such as `NEW."id"`.
+ */
+export function renderHistoryKey(primaryColumns: ColumnMetadata[], values: string[]): string {
+    const pairs = primaryColumns.map((column, index) => `${quoteLiteral(column.name)}, ${values[index]}`);
+    return `jsonb_build_object(${pairs.join(', ')})`;
+}
+
+/**
+ * The statements creating the history table of `table` and the trigger filling it. The
+ * trigger function and the trigger are replaced, so running them again is safe. Row images
+ * are stored as `jsonb`, so columns added to the entity later need no history migration.
+ */
+export function renderHistoryStatements(entity: Function, table: TableMetadata, historyTable: TableMetadata): string[] {
+    const tableName = formatTableName(table);
+    const historyTableName = formatTableName(historyTable);
+    const functionName = formatTableName({ name: `record_${table.name}_history`, schema: table.schema });
+    const triggerName = quoteIdentifier(`${table.name}_history`);
+    const indexName = quoteIdentifier(`idx_${historyTable.name}_row_key`.toLowerCase());
+
+    const primaryColumns = getPrimaryColumns(entity);
+    if (primaryColumns.length === 0) {
+        throw new OrmError(`Audited entity ${entity.name} needs a primary key to identify its rows in ${historyTableName}`);
+    }
+    const keyOf = (record: string) => renderHistoryKey(
+        primaryColumns,
+        primaryColumns.map(column => `${record}.${quoteIdentifier(column.name)}`)
+    );
+    const insert = `INSERT INTO ${historyTableName} ("operation", "actor", "row_key", "old_row", "new_row")`;
+
+    return [
+        `CREATE TABLE IF NOT EXISTS ${historyTableName} (
+            "history_id" bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+            "operation" text NOT NULL,
+            "changed_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "actor" text,
+            "row_key" jsonb NOT NULL,
+            "old_row" jsonb,
+            "new_row" jsonb
+        );`,
+        `CREATE INDEX IF NOT EXISTS ${indexName} ON ${historyTableName} ("row_key", "changed_at");`,
+        `CREATE OR REPLACE FUNCTION ${functionName}() RETURNS trigger LANGUAGE plpgsql AS $history$
+        DECLARE
+            acting_user text := NULLIF(current_setting(${quoteLiteral(ACTOR_SETTING)}, true), '');
+        BEGIN
+            IF TG_OP = 'INSERT' THEN
+                ${insert} VALUES (TG_OP, acting_user, ${keyOf('NEW')}, NULL, to_jsonb(NEW));
+            ELSIF TG_OP = 'UPDATE' THEN
+                ${insert} VALUES (TG_OP, acting_user, ${keyOf('NEW')}, to_jsonb(OLD), to_jsonb(NEW));
+            ELSE
+                ${insert} VALUES (TG_OP, acting_user, ${keyOf('OLD')}, to_jsonb(OLD), NULL);
+            END IF;
+            RETURN NULL;
+        END
+        $history$;`,
+        `DROP TRIGGER IF EXISTS ${triggerName} ON ${tableName};`,
+        `CREATE TRIGGER ${triggerName} AFTER INSERT OR UPDATE OR DELETE ON ${tableName}
+            FOR EACH ROW EXECUTE FUNCTION ${functionName}();`
+    ];
+}
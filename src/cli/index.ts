@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+import 'reflect-metadata';
+import { ConnectionPoolManager } from '../connection/ConnectionPoolManager';
+import { TransactionManager } from '../connection/TransactionManager';
+import { MigrationStatus } from '../migration/Migration';
+import { createMigration, MigrationRunner } from '../migration/MigrationRunner';
+
+const USAGE = `Usage: peculiar-orm migrate <command> [options]
+
+Commands:
+  up [--to <version>]                   Apply pending migrations, or those up to <version>
+  down [--steps <n> | --to <version>]   Revert the last migration, the last <n>, or all after <version>
+  status                                List migrations and whether they are applied
+  create <name> [--ts]                  Write an empty migration, in TypeScript with --ts
+
+Options:
+  --dir <path>       Migration directory (default: migrations)
+  --table <name>     Migrations table (default: peculiar_migrations)
+  --schema <name>    Schema of the migrations table (default: public)
+
+up, down and status connect to the database in DATABASE_URL.`;
+
+const BOOLEAN_FLAGS = new Set(['ts', 'help']);
+
+function parseArgs(argv: string[]): { positional: string[]; flags: Map<string, string | true> } {
+    const positional: string[] = [];
+    const flags = new Map<string, string | true>();
+
+    for (let index = 0; index < argv.length; index++) {
+        const arg = argv[index];
+        if (!arg.startsWith('--')) {
+            positional.push(arg);
+            continue;
+        }
+
+        const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+        if (BOOLEAN_FLAGS.has(name)) {
+            flags.set(name, true);
+        } else if (inlineValue !== undefined) {
+            flags.set(name, inlineValue);
+        } else if (index + 1 < argv.length) {
+            flags.set(name, argv[++index]);
+        } else {
+            throw new Error(`--${name} needs a value`);
+        }
+    }
+    return { positional, flags };
+}
+
+function printStatuses(statuses: MigrationStatus[]): void {
+    const rows = statuses.map(status => [
+        status.version,
+        status.name,
+        status.state,
+        status.appliedAt ? status.appliedAt.toISOString() : ''
+    ]);
+    const header = ['Version', 'Name', 'State', 'Applied at'];
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    for (const row of [header, ...rows]) {
+        console.log(row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+    }
+}
+
+async function main(argv: string[]): Promise<number> {
+    const { positional, flags } = parseArgs(argv);
+    const [group, command, ...rest] = positional;
+    const flag = (name: string): string | undefined => {
+        const value = flags.get(name);
+        return typeof value === 'string' ? value : undefined;
+    };
+
+    if (flags.has('help')) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (group !== 'migrate' || !['up', 'down', 'status', 'create'].includes(command)) {
+        console.error(USAGE);
+        return 1;
+    }
+
+    const directory = flag('dir') ?? 'migrations';
+
+    if (command === 'create') {
+        if (rest.length === 0) {
+            console.error('Usage: peculiar-orm migrate create <name> [--ts]');
+            return 1;
+        }
+        console.log(`Created ${createMigration(directory, rest.join(' '), { typescript: flags.has('ts') })}`);
+        return 0;
+    }
+
+    const connectionString = process.env.DATABASE_URL;
+    if (!connectionString) {
+        console.error('DATABASE_URL is not set');
+        return 1;
+    }
+
+    const poolManager = new ConnectionPoolManager({ connectionString });
+    const transactionManager = new TransactionManager(poolManager);
+    const runner = new MigrationRunner(transactionManager, {
+        directory,
+        table: { name: flag('table'), schema: flag('schema') }
+    });
+
+    try {
+        if (command === 'up') {
+            const applied = await runner.up({ to: flag('to') });
+            console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'No pending migrations');
+            printStatuses(applied);
+        } else if (command === 'down') {
+            const steps = flag('steps');
+            const reverted = await runner.down({ steps: steps === undefined ? undefined : Number(steps), to: flag('to') });
+            console.log(`Reverted ${reverted.length} migration(s)`);
+            printStatuses(reverted);
+        } else {
+            printStatuses(await runner.status());
+        }
+        return 0;
+    } finally {
+        transactionManager.dispose();
+        await poolManager.dispose();
+    }
+}
+
+main(process.argv.slice(2)).then(
+    code => { process.exitCode = code; },
+    (error: Error) => {
+        console.error(error.message);
+        process.exitCode = 1;
+    }
+);
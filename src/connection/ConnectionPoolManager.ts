@@ -1,4 +1,4 @@
-import { Pool, PoolClient, PoolConfig } from 'pg';
+import { Pool, PoolClient, PoolConfig, QueryConfig } from 'pg';
 import { EventEmitter } from 'events';
 import { injectable } from 'inversify';
 import { Logger, LogLevel } from '../utils/Logger';
@@ -33,6 +33,14 @@ interface ConnectionTimestamp {
     queryTimeoutTimer?: NodeJS.Timeout;
 }
 
+/**
+ * Query config accepted by managed clients. `queryTimeoutMs` overrides the pool's
+ * query timeout for this query only; `0` disables it.
+ */
+export interface TimedQueryConfig extends QueryConfig {
+    queryTimeoutMs?: number;
+}
+
 const CONNECTION_ID_SYMBOL = Symbol('connectionId');
 
 @injectable()
@@ -228,6 +236,9 @@ export class ConnectionPoolManager extends EventEmitter {
                 if (currentQueryTimeoutTimer) clearTimeout(currentQueryTimeoutTimer);
 
                 const queryText = typeof args[0] === 'string' ? args[0] : (args[0] as { text: string }).text;
+                const queryTimeoutMs = typeof args[0] === 'object' && typeof (args[0] as TimedQueryConfig).queryTimeoutMs === 'number'
+                    ? (args[0] as TimedQueryConfig).queryTimeoutMs as number
+                    : this.QUERY_TIMEOUT_MS;
                 const currentClientProcessID = (client as any).processID as number | undefined;
                 const queryContext = {
                     context: 'ConnectionPoolManager.client.query.timeoutHandler',
@@ -235,10 +246,10 @@ export class ConnectionPoolManager extends EventEmitter {
                     internalConnectionId,
                     processID: currentClientProcessID,
                     query: queryText.substring(0, 200) + (queryText.length > 200 ? '...' : ''),
-                    queryTimeoutMs: this.QUERY_TIMEOUT_MS,
+                    queryTimeoutMs,
                 };
 
-                currentQueryTimeoutTimer = setTimeout(async () => {
+                const queryTimeoutTimer = queryTimeoutMs <= 0 ? undefined : setTimeout(async () => {
                     Logger.write('Query timeout detected. Attempting pg_cancel_backend...', LogLevel.WARNING, queryContext);
                     this.emit('error', new DatabaseConnectionError('Query timeout detected', { cause: 'QueryTimeout', poolId: this.poolId }));
 
@@ -257,21 +268,31 @@ export class ConnectionPoolManager extends EventEmitter {
                     } else {
                         Logger.write('Cannot attempt pg_cancel_backend: client.processID is not available.', LogLevel.WARNING, queryContext);
                     }
-                    this.performClientRelease(client, new Error(`Query timed out after ${this.QUERY_TIMEOUT_MS}ms. Cancellation attempted.`));
-                }, this.QUERY_TIMEOUT_MS);
-                connectionDetails.queryTimeoutTimer = currentQueryTimeoutTimer;
+                    this.performClientRelease(client, new Error(`Query timed out after ${queryTimeoutMs}ms. Cancellation attempted.`));
+                }, queryTimeoutMs);
+                currentQueryTimeoutTimer = queryTimeoutTimer;
+                connectionDetails.queryTimeoutTimer = queryTimeoutTimer;
 
+                // Each query clears its own timer, so a slow query finishing late cannot
+                // cancel the timeout of the query issued after it.
                 const originalQueryFunction = (client as any)._originalQuery || originalQuery;
                 const result = originalQueryFunction.apply(client, args as any);
                 if (result && typeof result.then === 'function') {
                     result.then(() => {
-                        if (currentQueryTimeoutTimer) clearTimeout(currentQueryTimeoutTimer);
+                        if (queryTimeoutTimer) clearTimeout(queryTimeoutTimer);
                     }).catch(() => {
-                        if (currentQueryTimeoutTimer) clearTimeout(currentQueryTimeoutTimer);
+                        if (queryTimeoutTimer) clearTimeout(queryTimeoutTimer);
                     });
+                } else if (result && typeof result.once === 'function') {
+                    // Submittables such as COPY streams finish on their own events.
+                    const clear = () => { if (queryTimeoutTimer) clearTimeout(queryTimeoutTimer); };
+                    result.once('finish', clear);
+                    result.once('end', clear);
+                    result.once('error', clear);
+                    result.once('close', clear);
                 } else {
-                    client.once('end', () => { if (currentQueryTimeoutTimer) clearTimeout(currentQueryTimeoutTimer); });
-                    client.once('error', () => { if (currentQueryTimeoutTimer) clearTimeout(currentQueryTimeoutTimer); });
+                    client.once('end', () => { if (queryTimeoutTimer) clearTimeout(queryTimeoutTimer); });
+                    client.once('error', () => { if (queryTimeoutTimer) clearTimeout(queryTimeoutTimer); });
                 }
                 return result;
             };
@@ -4,6 +4,7 @@ import { injectable, inject } from 'inversify';
 import { Logger, LogLevel } from '../utils/Logger';
 import { DatabaseIsolationLevel } from '../types';
 import { OrmError } from '../errors/OrmError';
+import { Actor } from '../audit/ActorProvider';
 
 // Define a symbol for Dependency Injection if users want to use it
 export const PECULIAR_ORM_TYPES = {
@@ -54,6 +55,7 @@ export class TransactionManager {
         transactionHistory: []
     };
 
+    private actor: Actor | null = null;
     private transactionStartTime: Date | null = null;
     private currentTransactionOptions?: TransactionOptions;
     private metricsLoggingInterval: NodeJS.Timeout | null = null;
@@ -70,6 +72,15 @@ export class TransactionManager {
         return this.requestId;
     }
 
+    /** Records the user this transaction manager works for; `@CreatedBy` and `@UpdatedBy` default to it. */
+    public setActor(actor: Actor | null): void {
+        this.actor = actor;
+    }
+
+    public getActor(): Actor | null {
+        return this.actor;
+    }
+
     public async getStandaloneClient(): Promise<PoolClient> {
         try {
             const client = await this.poolManager.getConnection();
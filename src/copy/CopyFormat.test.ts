@@ -0,0 +1,136 @@
+import { Column, ColumnMetadata, Entity, getColumnMetadata, PrimaryGeneratedColumn } from '../decorators';
+import { OrmError } from '../errors/OrmError';
+import {
+    BINARY_COPY_HEADER,
+    encodeBinaryRow,
+    encodeCsvRow,
+    getBinaryEncoders,
+    inlineParameters,
+    serializeValue
+} from './CopyFormat';
+
+@Entity({ name: 'samples' })
+class Sample {
+    @PrimaryGeneratedColumn('increment')
+    id!: number;
+
+    @Column({ type: 'text' })
+    label!: string;
+
+    @Column({ type: 'jsonb' })
+    data!: unknown;
+
+    @Column({ type: 'date' })
+    day!: Date;
+
+    @Column({ type: 'timestamptz' })
+    at!: Date;
+
+    @Column({ type: 'text', array: true })
+    tags!: string[];
+
+    @Column({ type: 'bigint' })
+    total!: bigint;
+
+    @Column({ type: 'uuid' })
+    ref!: string;
+
+    @Column({ type: 'boolean' })
+    flag!: boolean;
+
+    @Column({ type: 'bytea' })
+    blob!: Buffer;
+}
+
+function columns(...propertyKeys: Array<keyof Sample>): ColumnMetadata[] {
+    const byProperty = new Map(getColumnMetadata(Sample).map(column => [column.propertyKey, column]));
+    return propertyKeys.map(propertyKey => byProperty.get(propertyKey)!);
+}
+
+describe('serializeValue', () => {
+    it('renders values in Postgres text format', () => {
+        expect(serializeValue(null)).toBeNull();
+        expect(serializeValue(undefined)).toBeNull();
+        expect(serializeValue(12.5)).toBe('12.5');
+        expect(serializeValue(false)).toBe('false');
+        expect(serializeValue(new Date('2024-03-01T10:00:00.000Z'))).toBe('2024-03-01T10:00:00.000Z');
+        expect(serializeValue(Buffer.from([0xde, 0xad]))).toBe('\\xdead');
+        expect(serializeValue({ a: 1 })).toBe('{"a":1}');
+    });
+
+    it('writes the local calendar date for date columns', () => {
+        expect(serializeValue(new Date(2024, 0, 31, 23, 30), columns('day')[0])).toBe('2024-01-31');
+    });
+
+    it('writes JSON for JSON columns, including arrays and strings given as JSON', () => {
+        const [data] = columns('data');
+        expect(serializeValue([1, 2], data)).toBe('[1,2]');
+        expect(serializeValue('{"a":1}', data)).toBe('{"a":1}');
+    });
+
+    it('renders array literals with quoted and escaped elements', () => {
+        expect(serializeValue(['a', 'say "hi"', 'back\\slash', null, ['x']])).toBe('{"a","say \\"hi\\"","back\\\\slash",NULL,{"x"}}');
+    });
+});
+
+describe('encodeCsvRow', () => {
+    it('quotes every value, doubles embedded quotes and leaves NULL empty', () => {
+        const row = encodeCsvRow(['a "b", c', null, { a: 'x' }, ['t']], columns('label', 'label', 'data', 'tags'));
+
+        expect(row).toBe('"a ""b"", c",,"{""a"":""x""}","{""t""}"\n');
+    });
+
+    it('keeps line breaks inside the quoted field', () => {
+        expect(encodeCsvRow(['one\ntwo'], columns('label'))).toBe('"one\ntwo"\n');
+    });
+});
+
+describe('binary COPY', () => {
+    it('starts with the PGCOPY signature and empty flags and extension', () => {
+        expect(BINARY_COPY_HEADER.toString('latin1', 0, 11)).toBe('PGCOPY\n\xff\r\n\0');
+        expect(BINARY_COPY_HEADER.subarray(11)).toEqual(Buffer.alloc(8));
+    });
+
+    it('encodes the field count, then each field length and value, with -1 for NULL', () => {
+        const encoders = getBinaryEncoders(columns('id', 'label', 'flag'));
+        const row = encodeBinaryRow([7, 'hé', null], encoders);
+
+        expect(row).toEqual(Buffer.from([
+            0, 3,
+            0, 0, 0, 4, 0, 0, 0, 7,
+            0, 0, 0, 3, 0x68, 0xc3, 0xa9,
+            0xff, 0xff, 0xff, 0xff
+        ]));
+    });
+
+    it('encodes typed values in their binary representation', () => {
+        const [total, ref, flag, blob, data, at, day] = getBinaryEncoders(columns('total', 'ref', 'flag', 'blob', 'data', 'at', 'day'));
+
+        expect(total(9007199254740993n).readBigInt64BE()).toBe(9007199254740993n);
+        expect(ref('A0EEBC99-9C0B-4EF8-BB6D-6BB9BD380A11').toString('hex')).toBe('a0eebc999c0b4ef8bb6d6bb9bd380a11');
+        expect(flag(true)).toEqual(Buffer.from([1]));
+        expect(blob(Buffer.from([1, 2]))).toEqual(Buffer.from([1, 2]));
+        expect(data({ a: 1 })).toEqual(Buffer.concat([Buffer.from([1]), Buffer.from('{"a":1}')]));
+        expect(at(new Date('2000-01-01T00:00:01.5Z')).readBigInt64BE()).toBe(1500000n);
+        expect(day(new Date(2000, 0, 3)).readInt32BE()).toBe(2);
+    });
+
+    it('rejects values that cannot be encoded', () => {
+        const [ref, at] = getBinaryEncoders(columns('ref', 'at'));
+
+        expect(() => ref('not-a-uuid')).toThrow(OrmError);
+        expect(() => at('yesterday')).toThrow('Cannot encode "yesterday" as a date');
+    });
+
+    it('rejects unsupported column types before any data is encoded', () => {
+        expect(() => getBinaryEncoders(columns('label', 'tags')))
+            .toThrow('Column "tags" of type text[] is not supported by binary COPY; use the csv format');
+    });
+});
+
+describe('inlineParameters', () => {
+    it('replaces placeholders with quoted literals and NULL', () => {
+        expect(inlineParameters('"a" = $1 AND "b" IS DISTINCT FROM $2 AND "c" = $10', ["it's", null]))
+            .toBe('"a" = \'it\'\'s\' AND "b" IS DISTINCT FROM NULL AND "c" = $10');
+    });
+});
@@ -0,0 +1,177 @@
+import { ColumnMetadata, normalizeColumnType } from '../decorators';
+import { OrmError } from '../errors/OrmError';
+import { quoteLiteral } from '../utils/Identifier';
+
+export type CopyFormat = 'csv' | 'binary';
+
+const POSTGRES_EPOCH_MS = Date.UTC(2000, 0, 1);
+
+function isJsonColumn(column?: ColumnMetadata): boolean {
+    return !!column && !column.array && (normalizeColumnType(column) === 'json' || normalizeColumnType(column) === 'jsonb');
+}
+
+function pad(value: number, length: number = 2): string {
+    return String(value).padStart(length, '0');
+}
+
+/**
+ * Renders a value in Postgres text format. Dates are written as UTC timestamps, except for
+ * `date` columns which take the local calendar date, and JSON columns always receive JSON.
+ */
+export function serializeValue(value: any, column?: ColumnMetadata): string | null {
+    if (value === null || value === undefined) return null;
+    if (isJsonColumn(column)) return typeof value === 'string' ? value : JSON.stringify(value);
+
+    if (value instanceof Date) {
+        if (column && normalizeColumnType(column) === 'date') {
+            return `${pad(value.getFullYear(), 4)}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+        }
+        return value.toISOString();
+    }
+    if (Buffer.isBuffer(value)) return `\\x${value.toString('hex')}`;
+    if (Array.isArray(value)) return serializeArray(value);
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+function serializeArray(values: any[]): string {
+    const elements = values.map(value => {
+        if (value === null || value === undefined) return 'NULL';
+        if (Array.isArray(value)) return serializeArray(value);
+        return `"${(serializeValue(value) as string).replace(/[\\"]/g, '\\$&')}"`;
+    });
+    return `{${elements.join(',')}}`;
+}
+
+/** Encodes one row for `COPY ... WITH (FORMAT csv)`. Values are always quoted, so only NULL is left empty. */
+export function encodeCsvRow(values: any[], columns: ColumnMetadata[]): string {
+    const fields = values.map((value, index) => {
+        const text = serializeValue(value, columns[index]);
+        return text === null ? '' : `"${text.replace(/"/g, '""')}"`;
+    });
+    return `${fields.join(',')}\n`;
+}
+
+type BinaryEncoder = (value: any) => Buffer;
+
+function fixedWidth(size: number, write: (buffer: Buffer, value: any) => void): BinaryEncoder {
+    return value => {
+        const buffer = Buffer.alloc(size);
+        write(buffer, value);
+        return buffer;
+    };
+}
+
+function toDate(value: any): Date {
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new OrmError(`Cannot encode ${JSON.stringify(value)} as a date`);
+    }
+    return date;
+}
+
+const encodeText: BinaryEncoder = value => Buffer.from(String(value), 'utf8');
+const encodeInt4 = fixedWidth(4, (buffer, value) => buffer.writeInt32BE(Number(value)));
+const encodeInt8 = fixedWidth(8, (buffer, value) => buffer.writeBigInt64BE(BigInt(value)));
+const encodeTimestamp = fixedWidth(8, (buffer, value) => {
+    buffer.writeBigInt64BE(BigInt(toDate(value).getTime() - POSTGRES_EPOCH_MS) * 1000n);
+});
+const encodeJson: BinaryEncoder = value => encodeText(typeof value === 'string' ? value : JSON.stringify(value));
+
+const BINARY_ENCODERS: Record<string, BinaryEncoder> = {
+    'smallint': fixedWidth(2, (buffer, value) => buffer.writeInt16BE(Number(value))),
+    'int2': fixedWidth(2, (buffer, value) => buffer.writeInt16BE(Number(value))),
+    'integer': encodeInt4,
+    'int': encodeInt4,
+    'int4': encodeInt4,
+    'bigint': encodeInt8,
+    'int8': encodeInt8,
+    'real': fixedWidth(4, (buffer, value) => buffer.writeFloatBE(Number(value))),
+    'float4': fixedWidth(4, (buffer, value) => buffer.writeFloatBE(Number(value))),
+    'double precision': fixedWidth(8, (buffer, value) => buffer.writeDoubleBE(Number(value))),
+    'float8': fixedWidth(8, (buffer, value) => buffer.writeDoubleBE(Number(value))),
+    'boolean': fixedWidth(1, (buffer, value) => buffer.writeUInt8(value ? 1 : 0)),
+    'bool': fixedWidth(1, (buffer, value) => buffer.writeUInt8(value ? 1 : 0)),
+    'text': encodeText,
+    'varchar': encodeText,
+    'character varying': encodeText,
+    'char': encodeText,
+    'character': encodeText,
+    'citext': encodeText,
+    'uuid': value => {
+        const hex = String(value).replace(/-/g, '');
+        if (!/^[0-9a-f]{32}$/i.test(hex)) {
+            throw new OrmError(`Cannot encode ${JSON.stringify(value)} as a uuid`);
+        }
+        return Buffer.from(hex, 'hex');
+    },
+    'bytea': value => Buffer.isBuffer(value) ? value : Buffer.from(value),
+    'json': encodeJson,
+    'jsonb': value => Buffer.concat([Buffer.from([1]), encodeJson(value)]),
+    'timestamp': encodeTimestamp,
+    'timestamp without time zone': encodeTimestamp,
+    'timestamptz': encodeTimestamp,
+    'timestamp with time zone': encodeTimestamp,
+    'date': fixedWidth(4, (buffer, value) => {
+        const date = toDate(value);
+        const days = (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - POSTGRES_EPOCH_MS) / 86400000;
+        buffer.writeInt32BE(days);
+    })
+};
+
+/**
+ * Resolves the binary encoder of every column up front, so an unsupported column type
+ * fails before any data is sent.
+ */
+export function getBinaryEncoders(columns: ColumnMetadata[]): BinaryEncoder[] {
+    return columns.map(column => {
+        const encoder = column.array ? undefined : BINARY_ENCODERS[normalizeColumnType(column)];
+        if (!encoder) {
+            throw new OrmError(`Column "${column.propertyKey}" of type ${column.type}${column.array ? '[]' : ''} is not supported by binary COPY; use the csv format`);
+        }
+        return encoder;
+    });
+}
+
+/** Signature, flags and header extension length of the binary COPY format. */
+export const BINARY_COPY_HEADER = Buffer.concat([
+    Buffer.from('PGCOPY\n\xff\r\n\0', 'latin1'),
+    Buffer.alloc(8)
+]);
+
+export const BINARY_COPY_TRAILER = Buffer.from([0xff, 0xff]);
+
+export function encodeBinaryRow(values: any[], encoders: BinaryEncoder[]): Buffer {
+    const parts: Buffer[] = [];
+    const fieldCount = Buffer.alloc(2);
+    fieldCount.writeInt16BE(values.length);
+    parts.push(fieldCount);
+
+    values.forEach((value, index) => {
+        const length = Buffer.alloc(4);
+        if (value === null || value === undefined) {
+            length.writeInt32BE(-1);
+            parts.push(length);
+            return;
+        }
+
+        const data = encoders[index](value);
+        length.writeInt32BE(data.length);
+        parts.push(length, data);
+    });
+
+    return Buffer.concat(parts);
+}
+
+/**
+ * Replaces `$n` placeholders with quoted literals. `COPY` does not accept bind parameters,
+ * so filters on an export have to be inlined.
+ */
+export function inlineParameters(sql: string, values: any[]): string {
+    return sql.replace(/\$(\d+)/g, (match, index: string) => {
+        const position = parseInt(index, 10) - 1;
+        if (position >= values.length) return match;
+        const text = serializeValue(values[position]);
+        return text === null ? 'NULL' : quoteLiteral(text);
+    });
+}
@@ -1,4 +1,10 @@
 import 'reflect-metadata';
+import { InvalidEnumValueError, OrmError } from '../errors/OrmError';
+import { getDefaultNamingStrategy, NamingStrategy } from '../naming/NamingStrategy';
+import { quoteIdentifier } from '../utils/Identifier';
+import { ValueTransformer } from '../transformers/ValueTransformer';
+import { SoftDeleteOptions } from '../types';
+import { getValidationRules, ValidationRule } from '../validation/Validation';
 
 export enum IndexType {
     BTREE = 'BTREE',
@@ -17,11 +23,318 @@ export interface ForeignKeyOptions {
     constraint?: string;
 }
 
-export function Column(type: string) {
+export interface EntityOptions {
+    name?: string;
+    schema?: string;
+    namingStrategy?: NamingStrategy;
+}
+
+export interface TableMetadata {
+    name: string;
+    schema: string;
+}
+
+export function Entity(options?: EntityOptions) {
+    return function (target: Function): void {
+        Reflect.defineMetadata('entity', { ...options }, target);
+    };
+}
+
+export interface AuditedOptions {
+    /** Name of the history table, created in the entity's schema. Defaults to `<table>_history`. */
+    historyTable?: string;
+}
+
+/**
+ * Records every change of the entity's rows: `SchemaSync` creates a history table and a
+ * trigger writing the old and new row images to it, read back with the repository's
+ * `history(id)` and `asOf(id, timestamp)`.
+ */
+export function Audited(options?: AuditedOptions) {
+    return function (target: Function): void {
+        Reflect.defineMetadata('audited', { ...options }, target);
+    };
+}
+
+export type ColumnDefault = string | number | boolean | null | (() => string);
+
+export interface ColumnOptions {
+    type: string;
+    /** Database column name; defaults to the naming strategy applied to the property name. */
+    name?: string;
+    nullable?: boolean;
+    /** Literal default value, or a function returning a raw SQL expression such as `() => 'now()'`. */
+    default?: ColumnDefault;
+    primary?: boolean;
+    unique?: boolean;
+    length?: number;
+    precision?: number;
+    scale?: number;
+    array?: boolean;
+    /** Converts the property value on writes and filters, and back on reads; several apply in order. */
+    transformer?: ValueTransformer | ValueTransformer[];
+}
+
+export interface ColumnMetadata {
+    propertyKey: string;
+    name: string;
+    type: string;
+    nullable: boolean;
+    default?: ColumnDefault;
+    primary: boolean;
+    unique: boolean;
+    length?: number;
+    precision?: number;
+    scale?: number;
+    array: boolean;
+    generated?: 'uuid' | 'increment';
+    /** Set for columns the repository maintains itself, such as `@DeleteDateColumn`. */
+    role?: ColumnRole;
+    transformer?: ValueTransformer | ValueTransformer[];
+    /** Set for `@EnumColumn`; `type` then holds the quoted type name. */
+    enum?: EnumTypeMetadata;
+    /** Classes of the `@Embedded` objects holding the column, outermost first; `propertyKey` is then a dotted path. */
+    embedded?: Function[];
+    /** Rules from validation decorators such as `@IsRequired`, checked before repository writes. */
+    validators?: ValidationRule[];
+    /** Raw SQL definition when the column was declared with the legacy string form. */
+    definition?: string;
+}
+
+export interface EnumTypeMetadata {
+    typeName: string;
+    /** Schema of the type; unqualified types resolve through the search path. */
+    schema?: string;
+    /** Allowed values in declaration order. Their string forms are the Postgres labels. */
+    values: Array<string | number>;
+}
+
+/** Columns with special meaning to the repository. */
+export type ColumnRole = 'deleteDate' | 'deletedBy' | 'version' | 'createDate' | 'updateDate' | 'createdBy' | 'updatedBy';
+
+type ColumnRegistration = Omit<ColumnMetadata, 'name'> & { name?: string };
+
+export type PrimaryGeneratedStrategy = 'uuid' | 'increment';
+
+const COLUMN_CONSTRAINT_KEYWORDS = /\s+(?=(?:NOT\s+NULL|NULL|DEFAULT|PRIMARY\s+KEY|UNIQUE|REFERENCES|CHECK|CONSTRAINT|GENERATED|COLLATE)\b)/i;
+
+function parseColumnDefinition(propertyKey: string, definition: string): ColumnRegistration {
+    const [typeSegment] = definition.trim().split(COLUMN_CONSTRAINT_KEYWORDS);
+    const array = /\[\]$/.test(typeSegment);
+    const primary = /\bPRIMARY\s+KEY\b/i.test(definition);
+    const defaultMatch = definition.match(/\bDEFAULT\s+(.+?)(?=\s+(?:NOT\s+NULL|NULL|PRIMARY\s+KEY|UNIQUE|REFERENCES|CHECK|CONSTRAINT|COLLATE)\b|$)/i);
+
+    const column: ColumnRegistration = {
+        propertyKey,
+        type: array ? typeSegment.slice(0, -2) : typeSegment,
+        nullable: !primary && !/\bNOT\s+NULL\b/i.test(definition),
+        primary,
+        unique: /\bUNIQUE\b/i.test(definition),
+        array,
+        definition
+    };
+
+    if (defaultMatch) {
+        const expression = defaultMatch[1].trim();
+        column.default = () => expression;
+    }
+
+    return column;
+}
+
+function getColumnRegistrations(entity: Function): ColumnRegistration[] {
+    return Reflect.getMetadata('columns', entity) || [];
+}
+
+function registerColumn(target: any, column: ColumnRegistration): void {
+    const columns = getColumnRegistrations(target.constructor);
+    columns.push(column);
+    Reflect.defineMetadata('columns', columns, target.constructor);
+}
+
+export function Column(type: string): (target: any, propertyKey: string) => void;
+export function Column(options: ColumnOptions): (target: any, propertyKey: string) => void;
+export function Column(typeOrOptions: string | ColumnOptions) {
     return function (target: any, propertyKey: string): void {
-        const columns = Reflect.getMetadata('columns', target.constructor) || [];
-        columns.push({ name: propertyKey, type });
-        Reflect.defineMetadata('columns', columns, target.constructor);
+        if (typeof typeOrOptions === 'string') {
+            registerColumn(target, parseColumnDefinition(propertyKey, typeOrOptions));
+            return;
+        }
+
+        registerColumn(target, {
+            ...typeOrOptions,
+            propertyKey,
+            nullable: typeOrOptions.nullable ?? !typeOrOptions.primary,
+            primary: typeOrOptions.primary || false,
+            unique: typeOrOptions.unique || false,
+            array: typeOrOptions.array || false
+        });
+    };
+}
+
+export function PrimaryColumn(options: Omit<ColumnOptions, 'primary'>) {
+    return Column({ ...options, primary: true });
+}
+
+export interface EnumColumnOptions extends Omit<ColumnOptions, 'type' | 'length' | 'precision' | 'scale'> {
+    /** Name of the Postgres enum type. Several columns may share one type. */
+    typeName: string;
+    schema?: string;
+}
+
+/** Values of a TypeScript enum, skipping the reverse mappings of numeric members. */
+function getEnumValues(enumObject: Record<string, string | number>): Array<string | number> {
+    return Object.keys(enumObject)
+        .filter(key => isNaN(Number(key)))
+        .map(key => enumObject[key]);
+}
+
+/**
+ * Declares a column backed by a Postgres enum type generated from a TypeScript enum.
+ * `SchemaSync` creates the type and adds members the TypeScript enum gains; repository
+ * writes reject values outside the enum.
+ */
+export function EnumColumn(enumObject: Record<string, string | number>, options: EnumColumnOptions) {
+    const values = getEnumValues(enumObject);
+    if (values.length === 0) {
+        throw new OrmError(`Enum type ${options.typeName} has no members`);
+    }
+
+    const { typeName, schema, ...columnOptions } = options;
+    const type = schema ? `${quoteIdentifier(schema)}.${quoteIdentifier(typeName)}` : quoteIdentifier(typeName);
+
+    return function (target: any, propertyKey: string): void {
+        registerColumn(target, {
+            ...columnOptions,
+            propertyKey,
+            type,
+            nullable: columnOptions.nullable ?? !columnOptions.primary,
+            primary: columnOptions.primary || false,
+            unique: columnOptions.unique || false,
+            array: columnOptions.array || false,
+            enum: { typeName, schema, values }
+        });
+    };
+}
+
+/** Throws `InvalidEnumValueError` unless the value (each element, for array columns) is an enum member. */
+export function assertEnumValue(column: ColumnMetadata, value: any): void {
+    if (!column.enum || value === null || value === undefined) return;
+
+    const allowed = column.enum.values;
+    const check = (element: any): void => {
+        if (Array.isArray(element) && column.array) {
+            element.forEach(check);
+        } else if (element !== null && !allowed.includes(element)) {
+            throw new InvalidEnumValueError(column.propertyKey, element, allowed);
+        }
+    };
+    check(value);
+}
+
+export type ManagedColumnOptions = Partial<Omit<ColumnOptions, 'primary' | 'default' | 'nullable'>>;
+
+function registerManagedColumn(
+    target: any,
+    propertyKey: string,
+    role: ColumnRole,
+    defaults: Pick<ColumnRegistration, 'type'> & Partial<Pick<ColumnRegistration, 'nullable' | 'default'>>,
+    options: ManagedColumnOptions = {}
+): void {
+    if (getColumnRegistrations(target.constructor).some(column => column.role === role)) {
+        throw new OrmError(`${target.constructor.name} declares more than one ${role} column`);
+    }
+
+    registerColumn(target, {
+        ...options,
+        propertyKey,
+        type: options.type || defaults.type,
+        nullable: defaults.nullable ?? true,
+        default: defaults.default,
+        primary: false,
+        unique: false,
+        array: false,
+        role
+    });
+}
+
+/**
+ * Enables soft deletion: `delete` and `bulkDelete` set this timestamp instead of removing
+ * rows, and reads skip rows where it is set unless asked otherwise.
+ */
+export function DeleteDateColumn(options?: ManagedColumnOptions) {
+    return function (target: any, propertyKey: string): void {
+        registerManagedColumn(target, propertyKey, 'deleteDate', { type: 'timestamptz' }, options);
+    };
+}
+
+/** Records the `deletedBy` argument of soft deletes, or the current actor; cleared again by `restore`. */
+export function DeletedBy(options?: ManagedColumnOptions) {
+    return function (target: any, propertyKey: string): void {
+        registerManagedColumn(target, propertyKey, 'deletedBy', { type: 'text' }, options);
+    };
+}
+
+/**
+ * Enables optimistic locking: the column starts at 1 and every repository update increments
+ * it. Updates and deletes given the version they read only apply while it is unchanged, and
+ * throw `OptimisticLockError` otherwise.
+ */
+export function VersionColumn(options?: ManagedColumnOptions) {
+    return function (target: any, propertyKey: string): void {
+        registerManagedColumn(target, propertyKey, 'version', { type: 'integer', nullable: false, default: 1 }, options);
+    };
+}
+
+/** Set by the database when the row is inserted; updates never change it. */
+export function CreateDateColumn(options?: ManagedColumnOptions) {
+    return function (target: any, propertyKey: string): void {
+        registerManagedColumn(target, propertyKey, 'createDate', { type: 'timestamptz', nullable: false, default: () => 'CURRENT_TIMESTAMP' }, options);
+    };
+}
+
+/** Set when the row is inserted and to the current time by every repository update. */
+export function UpdateDateColumn(options?: ManagedColumnOptions) {
+    return function (target: any, propertyKey: string): void {
+        registerManagedColumn(target, propertyKey, 'updateDate', { type: 'timestamptz', nullable: false, default: () => 'CURRENT_TIMESTAMP' }, options);
+    };
+}
+
+/** Filled with the current actor (see `setActorProvider`) on insert, unless the entity sets it. */
+export function CreatedBy(options?: ManagedColumnOptions) {
+    return function (target: any, propertyKey: string): void {
+        registerManagedColumn(target, propertyKey, 'createdBy', { type: 'text' }, options);
+    };
+}
+
+/** Filled with the current actor on insert and by every repository update. */
+export function UpdatedBy(options?: ManagedColumnOptions) {
+    return function (target: any, propertyKey: string): void {
+        registerManagedColumn(target, propertyKey, 'updatedBy', { type: 'text' }, options);
+    };
+}
+
+export function PrimaryGeneratedColumn(
+    strategy: PrimaryGeneratedStrategy = 'uuid',
+    options?: Partial<Omit<ColumnOptions, 'primary' | 'default'>>
+) {
+    return function (target: any, propertyKey: string): void {
+        const column: ColumnRegistration = {
+            propertyKey,
+            name: options?.name,
+            type: options?.type || (strategy === 'uuid' ? 'uuid' : 'integer'),
+            nullable: false,
+            primary: true,
+            unique: false,
+            array: false,
+            generated: strategy
+        };
+
+        if (strategy === 'uuid') {
+            column.default = () => 'gen_random_uuid()';
+        }
+
+        registerColumn(target, column);
     };
 }
 
@@ -57,21 +370,529 @@ export function Index(options?: {
     };
 }
 
-export function CompositeIndex(columns: string[]) {
+export function CompositeIndex(columns: string[], options?: { unique?: boolean }) {
     return function (target: Function) {
         const compositeIndexes = Reflect.getMetadata('compositeIndexes', target) || [];
-        compositeIndexes.push(columns);
+        compositeIndexes.push({ columns, unique: options?.unique || false });
         Reflect.defineMetadata('compositeIndexes', compositeIndexes, target);
     };
 }
 
+export type EntityHookKind = 'beforeInsert' | 'afterInsert' | 'beforeUpdate' | 'afterUpdate' | 'beforeRemove' | 'afterLoad';
+
+interface EntityHookRegistration {
+    kind: EntityHookKind;
+    propertyKey: string;
+}
+
+function registerHook(kind: EntityHookKind) {
+    return function (target: any, propertyKey: string): void {
+        const hooks: EntityHookRegistration[] = Reflect.getMetadata('entityHooks', target.constructor) || [];
+        hooks.push({ kind, propertyKey });
+        Reflect.defineMetadata('entityHooks', hooks, target.constructor);
+    };
+}
+
+/** Runs the method on the values passed to `create` or `bulkCreate` before they are inserted. */
+export function BeforeInsert() {
+    return registerHook('beforeInsert');
+}
+
+/** Runs the method on each entity returned by `create` or `bulkCreate`. */
+export function AfterInsert() {
+    return registerHook('afterInsert');
+}
+
+/** Runs the method on the changes passed to `update` or `bulkUpdate` before they are written. */
+export function BeforeUpdate() {
+    return registerHook('beforeUpdate');
+}
+
+/** Runs the method on each entity returned by `update` or `bulkUpdate`. */
+export function AfterUpdate() {
+    return registerHook('afterUpdate');
+}
+
+/** Runs the method on the stored row before `delete`, `bulkDelete` or `hardDelete` removes it. */
+export function BeforeRemove() {
+    return registerHook('beforeRemove');
+}
+
+/** Runs the method on each entity a repository read returns, after its relations are loaded. */
+export function AfterLoad() {
+    return registerHook('afterLoad');
+}
+
+/** Names of the entity's methods decorated for `kind`, in declaration order. */
+export function getEntityHooks(entity: Function, kind: EntityHookKind): string[] {
+    const hooks: EntityHookRegistration[] = Reflect.getMetadata('entityHooks', entity) || [];
+    return hooks.filter(hook => hook.kind === kind).map(hook => hook.propertyKey);
+}
+
+export interface EmbeddedOptions {
+    /** Prepended to the embedded column names. Defaults to the property's column name and `_`; pass `''` for none. */
+    prefix?: string;
+}
+
+interface EmbeddedRegistration {
+    propertyKey: string;
+    target: () => Function;
+    options: EmbeddedOptions;
+}
+
+/**
+ * Stores a value object's `@Column`s in the owning entity's table, e.g. `billing_city` for
+ * `billing.city`. Embedded classes need no `@Entity` and may embed further classes.
+ */
+export function Embedded<E>(target: () => new (...args: any[]) => E, options: EmbeddedOptions = {}) {
+    return function (prototype: any, propertyKey: string): void {
+        const embeddeds: EmbeddedRegistration[] = Reflect.getMetadata('embeddeds', prototype.constructor) || [];
+        embeddeds.push({ propertyKey, target, options });
+        Reflect.defineMetadata('embeddeds', embeddeds, prototype.constructor);
+    };
+}
+
+function getEmbeddedRegistrations(entity: Function): EmbeddedRegistration[] {
+    return Reflect.getMetadata('embeddeds', entity) || [];
+}
+
+/** Whether a property path, such as `billing` or `billing.geo`, names an `@Embedded` object. */
+export function isEmbeddedPath(entity: Function, path: string): boolean {
+    const [head, ...rest] = path.split('.');
+    const embedded = getEmbeddedRegistrations(entity).find(candidate => candidate.propertyKey === head);
+    return !!embedded && (rest.length === 0 || isEmbeddedPath(embedded.target(), rest.join('.')));
+}
+
+/**
+ * Property paths of the columns stored for the `@Embedded` object at `path`, relative to it,
+ * e.g. `city` and `geo.lat` for `billing`.
+ */
+export function getEmbeddedColumnPaths(entity: Function, path: string): string[] {
+    const prefix = `${path}.`;
+    return getColumnMetadata(entity, false)
+        .filter(column => column.propertyKey.startsWith(prefix))
+        .map(column => column.propertyKey.slice(prefix.length));
+}
+
+/**
+ * Replaces `@Embedded` objects in `values` with their columns' dotted property paths, e.g.
+ * `{ billing: { city } }` with `{ 'billing.city': city }`. Unset embedded properties are
+ * left out, and `null` sets every column of the embedded object to `null`.
+ */
+export function flattenEmbedded(entity: Function, values: Record<string, any>): Record<string, any> {
+    const embeddeds = getEmbeddedRegistrations(entity);
+    if (embeddeds.length === 0) return values;
+
+    const flat = { ...values };
+    for (const embedded of embeddeds) {
+        const value = flat[embedded.propertyKey];
+        delete flat[embedded.propertyKey];
+        if (value === undefined) continue;
+
+        const target = embedded.target();
+        const nested = value === null ? {} : flattenEmbedded(target, value);
+        for (const column of getColumnMetadata(target, false)) {
+            const columnValue = value === null ? null : nested[column.propertyKey];
+            if (columnValue !== undefined) flat[`${embedded.propertyKey}.${column.propertyKey}`] = columnValue;
+        }
+    }
+    return flat;
+}
+
+export type RelationKind = 'many-to-one' | 'one-to-many' | 'many-to-many';
+
+export interface ManyToOneOptions extends Pick<ForeignKeyOptions, 'onDelete' | 'onUpdate' | 'constraint'> {
+    /**
+     * Property holding the foreign key, `<property>Id` by default. When it is not declared
+     * with `@Column`, a column typed like the target's primary key is added.
+     */
+    joinColumn?: string;
+    /** Whether an added join column accepts `NULL`. Defaults to `true`. */
+    nullable?: boolean;
+    /** Loads the relation on every read of this entity. */
+    eager?: boolean;
+}
+
+export interface OneToManyOptions {
+    eager?: boolean;
+    /** What saving a collection does to rows no longer in it. Defaults to `nullify`. */
+    orphans?: 'nullify' | 'delete';
+}
+
+export interface JoinTableOptions {
+    /** Defaults to `<table>_<property column>` in the owning entity's schema. */
+    name?: string;
+    schema?: string;
+    /** Column referencing the owning entity, `<table>_<primary key>` by default. */
+    joinColumn?: string;
+    /** Column referencing the target entity, `<target table>_<primary key>` by default. */
+    inverseJoinColumn?: string;
+}
+
+export interface ManyToManyOptions {
+    joinTable?: JoinTableOptions;
+    /** Marks this side as the inverse of the named relation on the target, which owns the join table. */
+    mappedBy?: string;
+    eager?: boolean;
+}
+
+export interface JoinTableMetadata extends TableMetadata {
+    /** Column referencing the entity the metadata was resolved for. */
+    joinColumn: string;
+    /** Column referencing the related entity. */
+    inverseJoinColumn: string;
+}
+
+export interface RelationMetadata {
+    propertyKey: string;
+    kind: RelationKind;
+    target: Function;
+    eager: boolean;
+    /** The foreign key property: on this entity for many-to-one, on the target for one-to-many. */
+    joinColumn?: string;
+    /** The target's many-to-one property for one-to-many relations. */
+    inverseSide?: string;
+    joinTable?: JoinTableMetadata;
+    onDelete?: ForeignKeyOptions['onDelete'];
+    onUpdate?: ForeignKeyOptions['onUpdate'];
+    constraint?: string;
+    nullable?: boolean;
+    orphans?: 'nullify' | 'delete';
+}
+
+type RelationTarget<R = any> = () => new (...args: any[]) => R;
+
+interface RelationRegistration {
+    propertyKey: string;
+    kind: RelationKind;
+    target: RelationTarget;
+    inverseSide?: string;
+    options: ManyToOneOptions & OneToManyOptions & ManyToManyOptions;
+}
+
+function registerRelation(target: any, relation: RelationRegistration): void {
+    const relations: RelationRegistration[] = Reflect.getMetadata('relations', target.constructor) || [];
+    relations.push(relation);
+    Reflect.defineMetadata('relations', relations, target.constructor);
+}
+
+/**
+ * Relates each entity to at most one `target`, stored as a foreign key on this entity's
+ * table. Targets are given as a function so entities can reference each other.
+ */
+export function ManyToOne<R>(target: RelationTarget<R>, options: ManyToOneOptions = {}) {
+    return function (prototype: any, propertyKey: string): void {
+        registerRelation(prototype, { propertyKey, kind: 'many-to-one', target, options });
+    };
+}
+
+/** The inverse of a `@ManyToOne` on `target`, named by `inverseSide`; loads and saves as an array. */
+export function OneToMany<R>(target: RelationTarget<R>, inverseSide: keyof R & string, options: OneToManyOptions = {}) {
+    return function (prototype: any, propertyKey: string): void {
+        registerRelation(prototype, { propertyKey, kind: 'one-to-many', target, inverseSide, options });
+    };
+}
+
+/**
+ * Relates entities through a join table, which `SchemaSync` creates for the owning side.
+ * The other side, if declared, names the owning relation with `mappedBy`.
+ */
+export function ManyToMany<R>(target: RelationTarget<R>, options: ManyToManyOptions = {}) {
+    return function (prototype: any, propertyKey: string): void {
+        registerRelation(prototype, { propertyKey, kind: 'many-to-many', target, options });
+    };
+}
+
+function getRelationRegistrations(entity: Function): RelationRegistration[] {
+    return Reflect.getMetadata('relations', entity) || [];
+}
+
+/** The primary key column relations reference; relations need single column keys. */
+function getReferencedColumn(entity: Function): ColumnMetadata {
+    const primaryColumns = getColumnMetadata(entity, false).filter(column => column.primary);
+    if (primaryColumns.length !== 1) {
+        throw new OrmError(`Relations require ${entity.name} to have a single column primary key`);
+    }
+    return primaryColumns[0];
+}
+
+/** The column added for a many-to-one relation whose join column is not declared. */
+function createJoinColumn(relation: RelationRegistration): ColumnRegistration {
+    const referenced = getReferencedColumn(relation.target());
+    return {
+        propertyKey: relation.options.joinColumn || `${relation.propertyKey}Id`,
+        type: SERIAL_TYPES[referenced.type.toLowerCase()] || referenced.type,
+        length: referenced.length,
+        precision: referenced.precision,
+        scale: referenced.scale,
+        nullable: relation.options.nullable ?? true,
+        primary: false,
+        unique: false,
+        array: false,
+        transformer: referenced.transformer
+    };
+}
+
+function resolveJoinTable(owner: Function, relation: RelationRegistration): JoinTableMetadata {
+    const options = relation.options.joinTable || {};
+    const ownerTable = getTableMetadata(owner);
+    const target = relation.target();
+    const targetTable = getTableMetadata(target);
+    const joinColumn = options.joinColumn || `${ownerTable.name}_${getReferencedColumn(owner).name}`;
+    let inverseJoinColumn = options.inverseJoinColumn || `${targetTable.name}_${getReferencedColumn(target).name}`;
+    if (inverseJoinColumn === joinColumn) {
+        // Self-referencing relations would otherwise get the same column twice.
+        inverseJoinColumn = `${resolveColumnName(owner, relation.propertyKey)}_${getReferencedColumn(target).name}`;
+    }
+
+    return {
+        name: options.name || `${ownerTable.name}_${resolveColumnName(owner, relation.propertyKey)}`,
+        schema: options.schema || ownerTable.schema,
+        joinColumn,
+        inverseJoinColumn
+    };
+}
+
+/**
+ * Resolves the entity's relations. Join tables of inverse many-to-many relations are taken
+ * from the owning side with their columns swapped, so `joinColumn` always references `entity`.
+ */
+export function getRelationMetadata(entity: Function): RelationMetadata[] {
+    return getRelationRegistrations(entity).map(relation => {
+        const target = relation.target();
+        const metadata: RelationMetadata = {
+            propertyKey: relation.propertyKey,
+            kind: relation.kind,
+            target,
+            eager: relation.options.eager || false
+        };
+
+        if (relation.kind === 'many-to-one') {
+            metadata.joinColumn = relation.options.joinColumn || `${relation.propertyKey}Id`;
+            metadata.onDelete = relation.options.onDelete || 'CASCADE';
+            metadata.onUpdate = relation.options.onUpdate || 'CASCADE';
+            metadata.constraint = relation.options.constraint;
+            metadata.nullable = relation.options.nullable ?? true;
+        } else if (relation.kind === 'one-to-many') {
+            const inverse = getRelationRegistrations(target)
+                .find(candidate => candidate.propertyKey === relation.inverseSide && candidate.kind === 'many-to-one');
+            if (!inverse) {
+                throw new OrmError(`${entity.name}.${relation.propertyKey} expects ${target.name}.${relation.inverseSide} to be a @ManyToOne relation`);
+            }
+            metadata.inverseSide = relation.inverseSide;
+            metadata.joinColumn = inverse.options.joinColumn || `${inverse.propertyKey}Id`;
+            metadata.orphans = relation.options.orphans || 'nullify';
+        } else if (relation.options.mappedBy) {
+            const owner = getRelationRegistrations(target)
+                .find(candidate => candidate.propertyKey === relation.options.mappedBy && candidate.kind === 'many-to-many');
+            if (!owner || owner.options.mappedBy) {
+                throw new OrmError(`${entity.name}.${relation.propertyKey} expects ${target.name}.${relation.options.mappedBy} to be an owning @ManyToMany relation`);
+            }
+            const joinTable = resolveJoinTable(target, owner);
+            metadata.joinTable = { ...joinTable, joinColumn: joinTable.inverseJoinColumn, inverseJoinColumn: joinTable.joinColumn };
+        } else {
+            metadata.joinTable = resolveJoinTable(entity, relation);
+        }
+
+        return metadata;
+    });
+}
+
+/** DDL for the join tables of the entity's owning many-to-many relations. */
+export function getJoinTableMetadata(entity: Function): Array<{ table: TableMetadata; definitions: string[] }> {
+    return getRelationRegistrations(entity)
+        .filter(relation => relation.kind === 'many-to-many' && !relation.options.mappedBy)
+        .map(relation => {
+            const joinTable = resolveJoinTable(entity, relation);
+            const target = relation.target();
+            const ownerColumn = getReferencedColumn(entity);
+            const targetColumn = getReferencedColumn(target);
+            const reference = (column: string, referenced: ColumnMetadata, table: TableMetadata) =>
+                `${quoteIdentifier(column)} ${renderCastType({ ...referenced, array: false })} NOT NULL ` +
+                `REFERENCES ${formatTableName(table)} (${quoteIdentifier(referenced.name)}) ON DELETE CASCADE ON UPDATE CASCADE`;
+
+            return {
+                table: { name: joinTable.name, schema: joinTable.schema },
+                definitions: [
+                    reference(joinTable.joinColumn, ownerColumn, getTableMetadata(entity)),
+                    reference(joinTable.inverseJoinColumn, targetColumn, getTableMetadata(target)),
+                    `PRIMARY KEY (${quoteIdentifier(joinTable.joinColumn)}, ${quoteIdentifier(joinTable.inverseJoinColumn)})`
+                ]
+            };
+        });
+}
+
+export function getNamingStrategy(entity: Function): NamingStrategy {
+    const options: EntityOptions | undefined = Reflect.getMetadata('entity', entity);
+    return options?.namingStrategy || getDefaultNamingStrategy();
+}
+
+/**
+ * Resolves the entity's columns, including the join columns `@ManyToOne` adds and the
+ * flattened columns of `@Embedded` objects. Pass `includeJoinColumns = false` to leave
+ * out join columns that are not declared.
+ */
+export function getColumnMetadata(entity: Function, includeJoinColumns: boolean = true): ColumnMetadata[] {
+    return resolveColumns(entity, getNamingStrategy(entity), includeJoinColumns);
+}
+
+/** Embedded classes resolve their columns with the owning entity's naming strategy. */
+function resolveColumns(entity: Function, namingStrategy: NamingStrategy, includeJoinColumns: boolean): ColumnMetadata[] {
+    const columns = [...getColumnRegistrations(entity)];
+    if (includeJoinColumns) {
+        for (const relation of getRelationRegistrations(entity)) {
+            if (relation.kind !== 'many-to-one') continue;
+            const joinColumn = createJoinColumn(relation);
+            if (!columns.some(column => column.propertyKey === joinColumn.propertyKey)) {
+                columns.push(joinColumn);
+            }
+        }
+    }
+
+    const embeddedColumns = getEmbeddedRegistrations(entity).flatMap(embedded => {
+        const target = embedded.target();
+        const prefix = embedded.options.prefix ?? `${namingStrategy.columnName(embedded.propertyKey)}_`;
+        return resolveColumns(target, namingStrategy, false).map(column => ({
+            ...column,
+            propertyKey: `${embedded.propertyKey}.${column.propertyKey}`,
+            name: `${prefix}${column.name}`,
+            embedded: [target, ...(column.embedded || [])]
+        }));
+    });
+
+    return [
+        ...columns.map(column => {
+            const validators = getValidationRules(entity, column.propertyKey);
+            return {
+                ...column,
+                name: namingStrategy.columnName(column.propertyKey, column.name),
+                ...(validators.length > 0 ? { validators } : {})
+            };
+        }),
+        ...embeddedColumns
+    ];
+}
+
+export function getColumnByRole(entity: Function, role: ColumnRole): ColumnMetadata | undefined {
+    return getColumnMetadata(entity, false).find(column => column.role === role && !column.embedded);
+}
+
+/**
+ * The condition hiding soft-deleted rows for a read, or an empty string when the entity
+ * has no `@DeleteDateColumn` or deleted rows are included. `qualifier` is a quoted alias.
+ */
+export function renderSoftDeleteCondition(entity: Function, scope: SoftDeleteOptions = {}, qualifier?: string): string {
+    const column = getColumnByRole(entity, 'deleteDate');
+    if (!column || (scope.withDeleted && !scope.onlyDeleted)) return '';
+
+    const name = qualifier ? `${qualifier}.${quoteIdentifier(column.name)}` : quoteIdentifier(column.name);
+    return `${name} ${scope.onlyDeleted ? 'IS NOT NULL' : 'IS NULL'}`;
+}
+
+export function getPrimaryColumns(entity: Function): ColumnMetadata[] {
+    return getColumnMetadata(entity).filter(column => column.primary);
+}
+
+/**
+ * Lists the property sets that are guaranteed unique: the primary key first, then
+ * `unique` columns, unique `@Index` columns and unique `@CompositeIndex` groups.
+ */
+export function getUniqueKeys(entity: Function): string[][] {
+    const keys: string[][] = [];
+    const primaryColumns = getPrimaryColumns(entity);
+    if (primaryColumns.length > 0) {
+        keys.push(primaryColumns.map(column => column.propertyKey));
+    }
+
+    getColumnMetadata(entity)
+        .filter(column => column.unique && !column.primary)
+        .forEach(column => keys.push([column.propertyKey]));
+
+    const indexes = Reflect.getMetadata('indexes', entity) || [];
+    indexes
+        .filter((index: { column: string; unique: boolean }) => index.unique)
+        .forEach((index: { column: string }) => keys.push([index.column]));
+
+    const compositeIndexes = Reflect.getMetadata('compositeIndexes', entity) || [];
+    compositeIndexes
+        .filter((index: { columns: string[]; unique: boolean }) => index.unique)
+        .forEach((index: { columns: string[] }) => keys.push([...index.columns]));
+
+    return keys.filter((key, index) => keys.findIndex(other => other.join(',') === key.join(',')) === index);
+}
+
+/**
+ * Maps a property name to its database column. Names that are not declared with `@Column`
+ * still go through the entity's naming strategy.
+ */
+export function resolveColumnName(entity: Function, propertyKey: string): string {
+    const column = getColumnMetadata(entity).find(col => col.propertyKey === propertyKey);
+    return column ? column.name : getNamingStrategy(entity).columnName(propertyKey);
+}
+
+function renderDefault(value: ColumnDefault): string {
+    if (typeof value === 'function') return value();
+    if (value === null) return 'NULL';
+    if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;
+    return String(value);
+}
+
+export function renderColumnType(column: ColumnMetadata): string {
+    let type = column.type;
+
+    if (column.length !== undefined) {
+        type += `(${column.length})`;
+    } else if (column.precision !== undefined) {
+        type += column.scale !== undefined ? `(${column.precision}, ${column.scale})` : `(${column.precision})`;
+    }
+
+    return column.array ? `${type}[]` : type;
+}
+
+/** Reduces a declared column type to its lower-case base name, e.g. `VARCHAR(255)` to `varchar`. */
+export function normalizeColumnType(column: ColumnMetadata): string {
+    return column.type.toLowerCase().replace(/\(.*\)/, '').replace(/\s+/g, ' ').trim();
+}
+
+const SERIAL_TYPES: Record<string, string> = {
+    smallserial: 'smallint',
+    serial: 'integer',
+    bigserial: 'bigint'
+};
+
+/** The type to cast bind parameters to for this column; serial pseudo-types map to their integer type. */
+export function renderCastType(column: ColumnMetadata): string {
+    const serialType = SERIAL_TYPES[column.type.toLowerCase()];
+    return serialType ? (column.array ? `${serialType}[]` : serialType) : renderColumnType(column);
+}
+
+/**
+ * Renders the DDL for a single column. Legacy string declarations are emitted verbatim;
+ * `inlinePrimaryKey` is disabled for composite keys, which are rendered as a table constraint.
+ */
+export function renderColumnDefinition(column: ColumnMetadata, inlinePrimaryKey: boolean = true): string {
+    if (column.definition) {
+        return `${quoteIdentifier(column.name)} ${column.definition}`;
+    }
+
+    const parts = [quoteIdentifier(column.name), renderColumnType(column)];
+
+    if (column.generated === 'increment') parts.push('GENERATED BY DEFAULT AS IDENTITY');
+    if (column.default !== undefined) parts.push(`DEFAULT ${renderDefault(column.default)}`);
+    if (!column.nullable) parts.push('NOT NULL');
+    if (column.unique) parts.push('UNIQUE');
+    if (column.primary && inlinePrimaryKey) parts.push('PRIMARY KEY');
+
+    return parts.join(' ');
+}
+
 export function getEntityMetadata(entity: Function): { columns: string[], constraints: string[] } {
-    const columns = Reflect.getMetadata('columns', entity) || [];
+    const columns = getColumnMetadata(entity);
     const foreignKeys = Reflect.getMetadata('foreignKeys', entity) || [];
+    const primaryColumns = columns.filter(col => col.primary && !col.definition);
+    const inlinePrimaryKey = primaryColumns.length <= 1;
 
-    const columnDefinitions = columns.map((col: { name: string; type: string }) => {
-        return `"${col.name}" ${col.type}`;
-    });
+    const columnDefinitions = columns.map(col => renderColumnDefinition(col, inlinePrimaryKey));
 
     const constraintDefinitions = foreignKeys.map((fk: {
         column: string;
@@ -83,34 +904,94 @@ export function getEntityMetadata(entity: Function): { columns: string[], constr
             constraint: string;
         }
     }) => {
-        return `CONSTRAINT ${fk.references.constraint} FOREIGN KEY ("${fk.column}") ` +
-            `REFERENCES "${fk.references.table}" ("${fk.references.field}") ` +
+        return `CONSTRAINT ${quoteIdentifier(fk.references.constraint)} FOREIGN KEY (${quoteIdentifier(resolveColumnName(entity, fk.column))}) ` +
+            `REFERENCES ${quoteIdentifier(fk.references.table)} (${quoteIdentifier(fk.references.field)}) ` +
             `ON DELETE ${fk.references.onDelete} ` +
             `ON UPDATE ${fk.references.onUpdate}`;
     });
 
+    for (const relation of getRelationMetadata(entity)) {
+        if (relation.kind !== 'many-to-one') continue;
+        const targetTable = getTableMetadata(relation.target);
+        const constraint = relation.constraint || `fk_${targetTable.name}_${relation.joinColumn}`;
+        constraintDefinitions.push(
+            `CONSTRAINT ${quoteIdentifier(constraint)} FOREIGN KEY (${quoteIdentifier(resolveColumnName(entity, relation.joinColumn!))}) ` +
+            `REFERENCES ${formatTableName(targetTable)} (${quoteIdentifier(getReferencedColumn(relation.target).name)}) ` +
+            `ON DELETE ${relation.onDelete} ` +
+            `ON UPDATE ${relation.onUpdate}`
+        );
+    }
+
+    if (!inlinePrimaryKey) {
+        constraintDefinitions.unshift(`PRIMARY KEY (${primaryColumns.map(col => quoteIdentifier(col.name)).join(', ')})`);
+    }
+
     return {
         columns: columnDefinitions,
         constraints: constraintDefinitions
     };
 }
 
-export function getIndexMetadata(entity: Function, tableName: string): string[] {
+export function hasTableMetadata(entity: Function): boolean {
+    return Reflect.hasMetadata('entity', entity);
+}
+
+export function getTableMetadata(entity: Function): TableMetadata {
+    const options: EntityOptions | undefined = Reflect.getMetadata('entity', entity);
+    if (!options) {
+        throw new OrmError(`Entity ${entity.name} is missing the @Entity decorator`);
+    }
+    return {
+        name: getNamingStrategy(entity).tableName(entity.name, options.name),
+        schema: options.schema || 'public'
+    };
+}
+
+export function isAudited(entity: Function): boolean {
+    return Reflect.hasMetadata('audited', entity);
+}
+
+/** The history table of an `@Audited` entity whose rows are stored in `table`. */
+export function getHistoryTableMetadata(entity: Function, table: TableMetadata = getTableMetadata(entity)): TableMetadata {
+    const options: AuditedOptions | undefined = Reflect.getMetadata('audited', entity);
+    if (!options) {
+        throw new OrmError(`Entity ${entity.name} is missing the @Audited decorator`);
+    }
+    return { name: options.historyTable || `${table.name}_history`, schema: table.schema };
+}
+
+export function formatTableName(table: TableMetadata): string {
+    return `${quoteIdentifier(table.schema)}.${quoteIdentifier(table.name)}`;
+}
+
+export function getIndexMetadata(entity: Function, table?: string | TableMetadata): string[] {
+    const resolvedTable: TableMetadata = typeof table === 'string'
+        ? { name: table, schema: 'public' }
+        : table || getTableMetadata(entity);
+    const tableName = resolvedTable.name;
+    const qualifiedTableName = formatTableName(resolvedTable);
     const indexes = Reflect.getMetadata('indexes', entity) || [];
     const compositeIndexes = Reflect.getMetadata('compositeIndexes', entity) || [];
 
     const indexStatements: string[] = [];
 
+    // Index names used to be emitted unquoted, so Postgres folded them to lower case.
+    // They are lower-cased here to keep matching indexes created by earlier versions.
     indexes.forEach((index: { column: string; unique: boolean; type: string }) => {
         const unique = index.unique ? 'UNIQUE ' : '';
         const using = index.type ? `USING ${index.type} ` : '';
-        const statement = `CREATE ${unique}INDEX IF NOT EXISTS idx_${tableName}_${index.column} ON "${tableName}" ${using}("${index.column}");`;
+        const column = resolveColumnName(entity, index.column);
+        const indexName = quoteIdentifier(`idx_${tableName}_${column}`.toLowerCase());
+        const statement = `CREATE ${unique}INDEX IF NOT EXISTS ${indexName} ON ${qualifiedTableName} ${using}(${quoteIdentifier(column)});`;
         indexStatements.push(statement);
     });
 
-    compositeIndexes.forEach((columns: string[]) => {
-        const columnList = columns.map(col => `"${col}"`).join(', ');
-        const statement = `CREATE INDEX IF NOT EXISTS idx_${tableName}_${columns.join('_')} ON "${tableName}" (${columnList});`;
+    compositeIndexes.forEach((index: { columns: string[]; unique: boolean }) => {
+        const unique = index.unique ? 'UNIQUE ' : '';
+        const columns = index.columns.map(property => resolveColumnName(entity, property));
+        const columnList = columns.map(col => quoteIdentifier(col)).join(', ');
+        const indexName = quoteIdentifier(`idx_${tableName}_${columns.join('_')}`.toLowerCase());
+        const statement = `CREATE ${unique}INDEX IF NOT EXISTS ${indexName} ON ${qualifiedTableName} (${columnList});`;
         indexStatements.push(statement);
     });
 
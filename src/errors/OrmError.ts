@@ -30,3 +30,76 @@ export class DatabaseConstraintError extends OrmError {
         this.name = 'DatabaseConstraintError';
     }
 }
+
+export class UnknownColumnError extends OrmError {
+    constructor(public readonly column: string, public readonly table: string) {
+        super(`Unknown column ${JSON.stringify(column)} for table ${table}`);
+        this.name = 'UnknownColumnError';
+    }
+}
+
+export class InvalidEnumValueError extends OrmError {
+    constructor(public readonly column: string, public readonly value: unknown, public readonly allowedValues: Array<string | number>) {
+        super(`Invalid value ${JSON.stringify(value)} for enum column ${JSON.stringify(column)}; expected one of ${allowedValues.map(v => JSON.stringify(v)).join(', ')}`);
+        this.name = 'InvalidEnumValueError';
+    }
+}
+
+export class UnknownRelationError extends OrmError {
+    constructor(public readonly relation: string, public readonly entity: string) {
+        super(`Unknown relation ${JSON.stringify(relation)} on entity ${entity}`);
+        this.name = 'UnknownRelationError';
+    }
+}
+
+export interface VersionConflict {
+    entityId: unknown;
+    expectedVersion: number;
+}
+
+/**
+ * Thrown when a versioned row changed, or disappeared, since it was read. `conflicts` lists
+ * every row that did not match; `entityId` and `expectedVersion` describe the first one.
+ */
+export class OptimisticLockError extends OrmError {
+    public readonly entityId: unknown;
+    public readonly expectedVersion: number;
+
+    constructor(public readonly entity: string, public readonly conflicts: VersionConflict[]) {
+        super(conflicts.length === 1
+            ? `${entity} ${JSON.stringify(conflicts[0].entityId)} was modified concurrently; expected version ${conflicts[0].expectedVersion}`
+            : `${conflicts.length} ${entity} rows were modified concurrently: ${conflicts.map(conflict => JSON.stringify(conflict.entityId)).join(', ')}`);
+        this.name = 'OptimisticLockError';
+        this.entityId = conflicts[0].entityId;
+        this.expectedVersion = conflicts[0].expectedVersion;
+    }
+}
+
+export interface ValidationFailure {
+    property: string;
+    rule: string;
+    message: string;
+    /** Position of the failing entity, when several entities were validated together. */
+    index?: number;
+}
+
+/** Thrown before a write whose values break validation rules; `errors` lists every failure. */
+export class ValidationError extends OrmError {
+    constructor(public readonly entity: string, public readonly errors: ValidationFailure[]) {
+        super(`Validation failed for ${entity}: ${errors.map(error =>
+            `${error.index !== undefined ? `[${error.index}] ` : ''}${error.message}`
+        ).join('; ')}`);
+        this.name = 'ValidationError';
+    }
+}
+
+/**
+ * Thrown when migrations cannot run: a migration failed and was rolled back, or applied
+ * migrations no longer match their files. `version` names the migration at fault.
+ */
+export class MigrationError extends OrmError {
+    constructor(message: string, public readonly version?: string) {
+        super(message);
+        this.name = 'MigrationError';
+    }
+}
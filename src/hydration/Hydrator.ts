@@ -0,0 +1,186 @@
+import { QueryResultRow } from 'pg';
+import { ColumnMetadata, normalizeColumnType } from '../decorators';
+import { transformFromDatabase } from '../transformers/ValueTransformer';
+
+/** Converts a value read from the driver into the value assigned to the entity property. */
+export type TypeCoercion = (value: any, column: ColumnMetadata) => any;
+
+function pad(value: number, length: number = 2): string {
+    return String(value).padStart(length, '0');
+}
+
+const toNumber: TypeCoercion = value => typeof value === 'number' ? value : Number(value);
+const toBigInt: TypeCoercion = value => typeof value === 'bigint' ? value : BigInt(value);
+const toBoolean: TypeCoercion = value => typeof value === 'boolean' ? value : value === 't' || value === 'true' || value === 1;
+const toDate: TypeCoercion = value => value instanceof Date ? value : new Date(value);
+
+/** `date` columns carry no time zone, so they stay `YYYY-MM-DD` strings instead of shifting with the local offset. */
+const toDateString: TypeCoercion = value => value instanceof Date
+    ? `${pad(value.getFullYear(), 4)}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+    : String(value);
+
+/** The driver parses JSON columns already; text that reaches a JSON column undecoded is parsed here. */
+const toJson: TypeCoercion = value => {
+    if (typeof value !== 'string' || !/^\s*[[{]/.test(value)) return value;
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+};
+
+const coercions = new Map<string, TypeCoercion>();
+
+/**
+ * Registers the coercion for one or more column types, e.g. to read `numeric` into a
+ * decimal library instead of `number`. Passing `null` keeps the driver's value as is.
+ */
+export function registerTypeCoercion(types: string | string[], coercion: TypeCoercion | null): void {
+    for (const type of Array.isArray(types) ? types : [types]) {
+        if (coercion) {
+            coercions.set(type.toLowerCase(), coercion);
+        } else {
+            coercions.delete(type.toLowerCase());
+        }
+    }
+}
+
+registerTypeCoercion(['smallint', 'int2', 'integer', 'int', 'int4', 'serial', 'smallserial'], toNumber);
+registerTypeCoercion(['real', 'float4', 'double precision', 'float8'], toNumber);
+registerTypeCoercion(['numeric', 'decimal'], toNumber);
+registerTypeCoercion(['bigint', 'int8', 'bigserial'], toBigInt);
+registerTypeCoercion(['boolean', 'bool'], toBoolean);
+registerTypeCoercion(['json', 'jsonb'], toJson);
+registerTypeCoercion(['timestamp', 'timestamp without time zone', 'timestamptz', 'timestamp with time zone'], toDate);
+registerTypeCoercion('date', toDateString);
+
+/**
+ * Applies the registered coercion for the column's type, element-wise for array columns.
+ * Enum labels map back to their member values, so numeric enums read as numbers.
+ */
+export function coerceValue(value: any, column: ColumnMetadata): any {
+    if (value === null || value === undefined) return value;
+
+    const enumValues = column.enum?.values;
+    const coercion = enumValues
+        ? (label: any) => enumValues.find(member => String(member) === String(label)) ?? label
+        : coercions.get(normalizeColumnType(column));
+    if (!coercion) return value;
+
+    if (column.array && typeof value === 'string') {
+        // The driver only parses arrays of built-in types; arrays of enums arrive as text.
+        value = parseArrayLiteral(value);
+    }
+
+    if (column.array && Array.isArray(value)) {
+        const coerceElements = (elements: any[]): any[] => elements.map(element => {
+            if (Array.isArray(element)) return coerceElements(element);
+            return element === null ? null : coercion(element, column);
+        });
+        return coerceElements(value);
+    }
+    return coercion(value, column);
+}
+
+/** Parses a Postgres array literal such as `{a,"b c",NULL}` into nested arrays of strings. */
+export function parseArrayLiteral(text: string): any[] {
+    let position = 0;
+
+    const parseArray = (): any[] => {
+        const elements: any[] = [];
+        position++; // opening brace
+
+        while (position < text.length && text[position] !== '}') {
+            if (text[position] === '{') {
+                elements.push(parseArray());
+            } else if (text[position] === '"') {
+                let element = '';
+                position++;
+                while (position < text.length && text[position] !== '"') {
+                    if (text[position] === '\\') position++;
+                    element += text[position++];
+                }
+                position++; // closing quote
+                elements.push(element);
+            } else {
+                const end = text.slice(position).search(/[,}]/);
+                const element = text.slice(position, end === -1 ? text.length : position + end);
+                position += element.length;
+                elements.push(element === 'NULL' ? null : element);
+            }
+
+            if (text[position] === ',') position++;
+        }
+
+        position++; // closing brace
+        return elements;
+    };
+
+    return text.startsWith('{') ? parseArray() : [text];
+}
+
+export interface HydrationOptions {
+    /** Prototype of the created objects; plain objects are created when omitted. */
+    prototype?: object;
+    /** Applies the registered type coercions, then the column transformers. */
+    coerce?: boolean;
+}
+
+/**
+ * Builds a row mapper that renames columns to property names and, optionally, converts their
+ * values and creates instances of the entity class. The entity constructor is not called,
+ * so field initializers do not overwrite loaded values. Columns without metadata, such as
+ * computed aliases, are copied unchanged. Columns of `@Embedded` objects are reassembled
+ * into nested objects; an embedded object whose columns are all `NULL` reads as `null`.
+ */
+export function createHydrator<T>(columns: ColumnMetadata[], options: HydrationOptions = {}): (row: QueryResultRow) => T {
+    const columnsByName = new Map(columns.map(column => [column.name, column]));
+    const embeddedPaths = [...new Set(columns
+        .filter(column => column.embedded)
+        .flatMap(column => column.propertyKey.split('.').slice(0, -1)
+            .map((_, index, segments) => segments.slice(0, index + 1).join('.'))))]
+        .sort((left, right) => right.split('.').length - left.split('.').length);
+
+    return row => {
+        const entity: Record<string, any> = options.prototype ? Object.create(options.prototype) : {};
+        for (const [name, value] of Object.entries(row)) {
+            const column = columnsByName.get(name);
+            if (!column) {
+                entity[name] = value;
+                continue;
+            }
+
+            const converted = options.coerce
+                ? transformFromDatabase(coerceValue(value, column), column.transformer)
+                : value;
+            if (column.embedded) {
+                assignEmbedded(entity, column, converted, !!options.prototype);
+            } else {
+                entity[column.propertyKey] = converted;
+            }
+        }
+
+        // Deepest paths first, so an all-null nested object also counts as null for its parent.
+        for (const path of embeddedPaths) {
+            const segments = path.split('.');
+            const parent = segments.slice(0, -1).reduce<any>((current, key) => current?.[key], entity);
+            const embedded = parent?.[segments[segments.length - 1]];
+            if (embedded && Object.values(embedded).every(value => value === null || value === undefined)) {
+                parent[segments[segments.length - 1]] = null;
+            }
+        }
+        return entity as T;
+    };
+}
+
+function assignEmbedded(entity: Record<string, any>, column: ColumnMetadata, value: any, instantiate: boolean): void {
+    const segments = column.propertyKey.split('.');
+    let target = entity;
+    segments.slice(0, -1).forEach((key, index) => {
+        if (!target[key]) {
+            target[key] = instantiate ? Object.create(column.embedded![index].prototype) : {};
+        }
+        target = target[key];
+    });
+    target[segments[segments.length - 1]] = value;
+}
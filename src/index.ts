@@ -3,7 +3,25 @@ export * from './connection/ConnectionPoolManager';
 export * from './connection/TransactionManager';
 export * from './repository/BaseRepository';
 export * from './repository/IRepository';
+export * from './repository/EntityRepository';
+export * from './query/QueryParameters';
+export * from './query/Where';
+export * from './query/SelectQueryBuilder';
+export * from './query/Pagination';
+export * from './copy/CopyFormat';
+export * from './hydration/Hydrator';
+export * from './relations/RelationLoader';
+export * from './subscribers/EntitySubscriber';
+export * from './validation/Validation';
+export * from './audit/ActorProvider';
+export * from './audit/History';
+export * from './transformers/ValueTransformer';
+export * from './transformers/EncryptionTransformer';
 export * from './schema/SchemaSync';
+export * from './migration/Migration';
+export * from './migration/MigrationRunner';
 export * from './errors/OrmError';
 export * from './utils/Logger';
+export * from './utils/Identifier';
 export * from './types';
+export * from './naming/NamingStrategy';
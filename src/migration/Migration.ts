@@ -0,0 +1,27 @@
+import { TransactionManager } from '../connection/TransactionManager';
+
+/**
+ * One schema or data change. Both methods run inside a transaction of `transactionManager`,
+ * so queries go through `transactionManager.getClient()` or repositories created on it,
+ * and a migration that throws leaves nothing behind.
+ */
+export interface Migration {
+    up(transactionManager: TransactionManager): Promise<void>;
+    down(transactionManager: TransactionManager): Promise<void>;
+}
+
+export type MigrationClass = new () => Migration;
+
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing';
+
+export interface MigrationStatus {
+    /** Leading digits of the file name, by convention the UTC time the migration was created. */
+    version: string;
+    name: string;
+    /**
+     * `changed` means applied, but the file no longer matches the recorded checksum;
+     * `missing` means applied, but no file has this version any more.
+     */
+    state: MigrationState;
+    appliedAt: Date | null;
+}
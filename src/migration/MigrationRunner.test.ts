@@ -0,0 +1,102 @@
+import { createHash } from 'crypto';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MigrationError } from '../errors/OrmError';
+import { fakeTransactionManager } from '../testing/FakeTransactionManager';
+import { MigrationRunner } from './MigrationRunner';
+
+const MIGRATION_SOURCE = `module.exports = class CreateThings {
+    async up(transactionManager) {
+        await transactionManager.getClient().query('CREATE TABLE things ()');
+    }
+
+    async down(transactionManager) {
+        await transactionManager.getClient().query('DROP TABLE things');
+    }
+};
+`;
+
+interface AppliedRow {
+    version: string;
+    name: string;
+    checksum: string;
+}
+
+/** Answers the runner's queries from the migrations table rows in `applied`, adding the ones it inserts. */
+function migrationsTable(applied: AppliedRow[], options: { failUnlock?: boolean } = {}) {
+    return fakeTransactionManager((text, values) => {
+        if (options.failUnlock && text.includes('pg_advisory_unlock')) throw new Error('connection lost');
+        if (text.includes('to_regclass')) return [{ exists: true }];
+        if (text.startsWith('SELECT "version"')) return applied.map(row => ({ ...row, applied_at: new Date(0) }));
+        if (text.startsWith('INSERT INTO')) applied.push({ version: values[0], name: values[1], checksum: values[2] });
+        return [];
+    }, { active: false });
+}
+
+describe('MigrationRunner', () => {
+    let directory: string;
+    let checksum: string;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        directory = mkdtempSync(join(tmpdir(), 'peculiar-migrations-'));
+        const path = join(directory, '20240101000000_create_things.js');
+        writeFileSync(path, MIGRATION_SOURCE);
+        checksum = createHash('sha256').update(readFileSync(path)).digest('hex');
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('applies pending migrations while holding the advisory lock and records their checksums', async () => {
+        const applied: AppliedRow[] = [];
+        const { transactionManager, queries, release } = migrationsTable(applied);
+
+        const ran = await new MigrationRunner(transactionManager, { directory }).up();
+
+        expect(ran.map(migration => migration.version)).toEqual(['20240101000000']);
+        expect(applied).toEqual([{ version: '20240101000000', name: 'create_things', checksum }]);
+        const texts = queries.map(query => query.text);
+        expect(texts[0]).toBe('SELECT pg_advisory_lock(hashtext($1))');
+        expect(texts.indexOf('CREATE TABLE things ()')).toBeGreaterThan(texts.indexOf('BEGIN'));
+        expect(texts.indexOf('COMMIT')).toBeGreaterThan(texts.indexOf('CREATE TABLE things ()'));
+        expect(texts[texts.length - 1]).toBe('SELECT pg_advisory_unlock(hashtext($1))');
+        expect(release).toHaveBeenCalledWith(undefined);
+    });
+
+    it('refuses to run when an applied migration changed, and still releases the lock', async () => {
+        const { transactionManager, queries, release } = migrationsTable([
+            { version: '20240101000000', name: 'create_things', checksum: 'stale' }
+        ]);
+
+        const result = new MigrationRunner(transactionManager, { directory }).up();
+
+        await expect(result).rejects.toBeInstanceOf(MigrationError);
+        await expect(result).rejects.toThrow('changed after it was applied');
+        const texts = queries.map(query => query.text);
+        expect(texts).not.toContain('BEGIN');
+        expect(texts[texts.length - 1]).toBe('SELECT pg_advisory_unlock(hashtext($1))');
+        expect(release).toHaveBeenCalledTimes(1);
+        expect(release).toHaveBeenCalledWith(undefined);
+    });
+
+    it('discards the connection when the lock cannot be released', async () => {
+        const { transactionManager, release } = migrationsTable([], { failUnlock: true });
+
+        await expect(new MigrationRunner(transactionManager, { directory }).up()).resolves.toHaveLength(1);
+        expect(release).toHaveBeenCalledWith(expect.objectContaining({ message: 'connection lost' }));
+    });
+
+    it('reports changed migrations in status without taking the lock', async () => {
+        const { transactionManager, queries } = migrationsTable([
+            { version: '20240101000000', name: 'create_things', checksum: 'stale' }
+        ]);
+
+        const statuses = await new MigrationRunner(transactionManager, { directory }).status();
+
+        expect(statuses.map(status => status.state)).toEqual(['changed']);
+        expect(queries.some(query => query.text.includes('pg_advisory_lock'))).toBe(false);
+    });
+});
@@ -0,0 +1,372 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { PoolClient } from 'pg';
+import { TransactionManager } from '../connection/TransactionManager';
+import { TimedQueryConfig } from '../connection/ConnectionPoolManager';
+import { formatTableName, TableMetadata } from '../decorators';
+import { MigrationError, OrmError } from '../errors/OrmError';
+import { Logger } from '../utils/Logger';
+import { quoteIdentifier } from '../utils/Identifier';
+import { Migration, MigrationClass, MigrationStatus } from './Migration';
+
+export const DEFAULT_MIGRATIONS_TABLE = 'peculiar_migrations';
+
+/** `<version>_<name>.js` or `.ts`; declaration files and source maps never match. */
+const MIGRATION_FILE_PATTERN = /^(\d+)_(\w+)\.(js|ts)$/;
+
+export interface MigrationRunnerOptions {
+    /** Directory of migration files named `<version>_<name>.js`, or `.ts` when running under ts-node. */
+    directory: string;
+    /** Table recording the applied migrations. Defaults to `peculiar_migrations` in `public`. */
+    table?: Partial<TableMetadata>;
+}
+
+interface MigrationFile {
+    version: string;
+    name: string;
+    path: string;
+    checksum: string;
+}
+
+interface AppliedMigration {
+    version: string;
+    name: string;
+    checksum: string;
+    appliedAt: Date;
+}
+
+/** Orders versions numerically, so `9` sorts before `10`. */
+function compareVersions(left: string, right: string): number {
+    const normalize = (version: string) => version.replace(/^0+(?=\d)/, '');
+    const [a, b] = [normalize(left), normalize(right)];
+    return a.length !== b.length ? a.length - b.length : a < b ? -1 : a > b ? 1 : 0;
+}
+
+function assertVersion(version: string | undefined): void {
+    if (version !== undefined && !/^\d+$/.test(version)) {
+        throw new OrmError(`Invalid migration version ${JSON.stringify(version)}; versions are digits only`);
+    }
+}
+
+/**
+ * Applies and reverts the migrations of one directory. Each migration runs in its own
+ * transaction together with its row in the migrations table, so it is recorded exactly
+ * when its changes commit. A Postgres advisory lock, held on a separate connection for
+ * the whole run, makes concurrent runners, such as replicas starting together, wait for
+ * each other instead of applying the same migration twice.
+ */
+export class MigrationRunner {
+    private readonly directory: string;
+    private readonly table: TableMetadata;
+
+    constructor(
+        private transactionManager: TransactionManager,
+        options: MigrationRunnerOptions
+    ) {
+        this.directory = resolve(options.directory);
+        this.table = {
+            name: options.table?.name ?? DEFAULT_MIGRATIONS_TABLE,
+            schema: options.table?.schema ?? 'public'
+        };
+    }
+
+    /**
+     * Applies the pending migrations in version order, or only those up to and including
+     * `to`. Refuses to run if an applied migration's file changed since. Returns the
+     * migrations it applied.
+     */
+    async up(options: { to?: string } = {}): Promise<MigrationStatus[]> {
+        assertVersion(options.to);
+        return this.withLock(async client => {
+            const files = this.discover();
+            const applied = await this.readApplied(client);
+            this.assertUnchanged(files, applied);
+
+            const pending = files.filter(file => !applied.has(file.version)
+                && (options.to === undefined || compareVersions(file.version, options.to) <= 0));
+            const latest = [...applied.keys()].pop();
+            const ran: MigrationStatus[] = [];
+
+            for (const file of pending) {
+                if (latest !== undefined && compareVersions(file.version, latest) < 0) {
+                    Logger.warn(`Applying a migration older than the latest applied one`, { version: file.version, latest });
+                }
+                await this.run(file, 'up');
+                ran.push({ version: file.version, name: file.name, state: 'applied', appliedAt: new Date() });
+            }
+
+            Logger.info(ran.length > 0 ? `Applied ${ran.length} migration(s)` : 'No pending migrations', { table: formatTableName(this.table) });
+            return ran;
+        });
+    }
+
+    /**
+     * Reverts applied migrations, newest first: the last `steps` of them (one by default),
+     * or every one newer than `to`. Returns the migrations it reverted.
+     */
+    async down(options: { steps?: number; to?: string } = {}): Promise<MigrationStatus[]> {
+        assertVersion(options.to);
+        if (options.steps !== undefined && (!Number.isInteger(options.steps) || options.steps < 1)) {
+            throw new OrmError('steps must be a positive integer');
+        }
+
+        return this.withLock(async client => {
+            const files = this.discover();
+            const applied = await this.readApplied(client);
+            this.assertUnchanged(files, applied);
+
+            const newestFirst = [...applied.values()].reverse();
+            const targets = options.to !== undefined
+                ? newestFirst.filter(migration => compareVersions(migration.version, options.to!) > 0)
+                : newestFirst.slice(0, options.steps ?? 1);
+
+            const byVersion = new Map(files.map(file => [file.version, file]));
+            const missing = targets.find(migration => !byVersion.has(migration.version));
+            if (missing) {
+                throw new MigrationError(`Cannot revert ${missing.version}_${missing.name}: its file is missing from ${this.directory}`, missing.version);
+            }
+
+            const reverted: MigrationStatus[] = [];
+            for (const migration of targets) {
+                await this.run(byVersion.get(migration.version)!, 'down');
+                reverted.push({ version: migration.version, name: migration.name, state: 'pending', appliedAt: null });
+            }
+
+            Logger.info(`Reverted ${reverted.length} migration(s)`, { table: formatTableName(this.table) });
+            return reverted;
+        });
+    }
+
+    /** Every migration file and applied migration, in version order. Takes no lock and creates nothing. */
+    async status(): Promise<MigrationStatus[]> {
+        const files = this.discover();
+        const client = await this.transactionManager.getStandaloneClient();
+        let applied: Map<string, AppliedMigration>;
+        try {
+            const { rows } = await client.query('SELECT to_regclass($1) IS NOT NULL AS "exists"', [formatTableName(this.table)]);
+            applied = rows[0].exists ? await this.readApplied(client) : new Map();
+        } finally {
+            client.release();
+        }
+
+        const statuses: MigrationStatus[] = files.map(file => {
+            const record = applied.get(file.version);
+            return {
+                version: file.version,
+                name: file.name,
+                state: !record ? 'pending' : record.checksum === file.checksum ? 'applied' : 'changed',
+                appliedAt: record?.appliedAt ?? null
+            };
+        });
+
+        const fileVersions = new Set(files.map(file => file.version));
+        for (const record of applied.values()) {
+            if (fileVersions.has(record.version)) continue;
+            statuses.push({ version: record.version, name: record.name, state: 'missing', appliedAt: record.appliedAt });
+        }
+        return statuses.sort((left, right) => compareVersions(left.version, right.version));
+    }
+
+    /**
+     * Runs `work` while holding the advisory lock keyed by the migrations table, after
+     * creating the table if needed. The lock is held on a standalone connection, so it
+     * spans the transactions the migrations run in.
+     */
+    private async withLock<R>(work: (client: PoolClient) => Promise<R>): Promise<R> {
+        if (this.transactionManager.isActive()) {
+            throw new OrmError('Migrations run in their own transactions; commit or roll back the active transaction first');
+        }
+
+        const lockKey = formatTableName(this.table);
+        const client = await this.transactionManager.getStandaloneClient();
+        let releaseError: Error | undefined;
+        try {
+            Logger.info('Acquiring migration lock', { table: lockKey });
+            // Another runner may hold the lock for as long as its migrations take, so the wait is not timed out.
+            await client.query({ text: 'SELECT pg_advisory_lock(hashtext($1))', values: [lockKey], queryTimeoutMs: 0 } as TimedQueryConfig);
+            try {
+                await this.ensureTable(client);
+                return await work(client);
+            } finally {
+                try {
+                    await client.query('SELECT pg_advisory_unlock(hashtext($1))', [lockKey]);
+                } catch (unlockError) {
+                    // Discarding the connection ends its session, which releases the lock.
+                    releaseError = unlockError as Error;
+                    Logger.error(releaseError, { message: 'Failed to release migration lock.' });
+                }
+            }
+        } finally {
+            client.release(releaseError);
+        }
+    }
+
+    private async ensureTable(client: PoolClient): Promise<void> {
+        if (this.table.schema !== 'public') {
+            await client.query(`CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(this.table.schema)};`);
+        }
+        await client.query(`
+            CREATE TABLE IF NOT EXISTS ${formatTableName(this.table)} (
+                "version" text PRIMARY KEY,
+                "name" text NOT NULL,
+                "checksum" text NOT NULL,
+                "applied_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+            );`);
+    }
+
+    private async readApplied(client: PoolClient): Promise<Map<string, AppliedMigration>> {
+        const { rows } = await client.query(`SELECT "version", "name", "checksum", "applied_at" FROM ${formatTableName(this.table)}`);
+        const applied = rows
+            .map(row => ({ version: row.version, name: row.name, checksum: row.checksum, appliedAt: row.applied_at }))
+            .sort((left, right) => compareVersions(left.version, right.version));
+        return new Map(applied.map(migration => [migration.version, migration]));
+    }
+
+    /** Reads the migration files in version order, with the SHA-256 of their contents. */
+    private discover(): MigrationFile[] {
+        if (!existsSync(this.directory)) {
+            throw new MigrationError(`Migration directory ${this.directory} does not exist`);
+        }
+
+        const files = new Map<string, MigrationFile>();
+        for (const entry of readdirSync(this.directory)) {
+            const match = MIGRATION_FILE_PATTERN.exec(entry);
+            if (!match) continue;
+
+            const [, version, name] = match;
+            const existing = files.get(version);
+            if (existing) {
+                throw new MigrationError(`Migrations ${existing.version}_${existing.name} and ${entry} share version ${version}`, version);
+            }
+
+            const path = join(this.directory, entry);
+            const checksum = createHash('sha256').update(readFileSync(path)).digest('hex');
+            files.set(version, { version, name, path, checksum });
+        }
+        return [...files.values()].sort((left, right) => compareVersions(left.version, right.version));
+    }
+
+    private assertUnchanged(files: MigrationFile[], applied: Map<string, AppliedMigration>): void {
+        for (const file of files) {
+            const record = applied.get(file.version);
+            if (record && record.checksum !== file.checksum) {
+                throw new MigrationError(
+                    `Migration ${file.version}_${file.name} changed after it was applied; revert it first or add a new migration`,
+                    file.version
+                );
+            }
+        }
+    }
+
+    /** Loads the default export of a migration file, or else its first export with `up` and `down` methods. */
+    private load(file: MigrationFile): Migration {
+        const exported = require(file.path);
+        const candidates = [exported?.default, exported, ...Object.values(exported ?? {})];
+        const MigrationType = candidates.find((candidate): candidate is MigrationClass =>
+            typeof candidate === 'function'
+            && typeof candidate.prototype?.up === 'function'
+            && typeof candidate.prototype?.down === 'function'
+        );
+        if (!MigrationType) {
+            throw new MigrationError(`${file.path} does not export a migration class with up and down methods`, file.version);
+        }
+        return new MigrationType();
+    }
+
+    private async run(file: MigrationFile, direction: 'up' | 'down'): Promise<void> {
+        const migration = this.load(file);
+        const tableName = formatTableName(this.table);
+        const startTime = Date.now();
+        Logger.info(`Running migration ${direction}`, { version: file.version, name: file.name });
+
+        await this.transactionManager.beginTransaction();
+        try {
+            await migration[direction](this.transactionManager);
+
+            if (direction === 'up') {
+                await this.transactionManager.getClient().query(
+                    `INSERT INTO ${tableName} ("version", "name", "checksum") VALUES ($1, $2, $3)`,
+                    [file.version, file.name, file.checksum]
+                );
+            } else {
+                await this.transactionManager.getClient().query(`DELETE FROM ${tableName} WHERE "version" = $1`, [file.version]);
+            }
+
+            await this.transactionManager.commit();
+            Logger.info(`Migration ${direction} completed`, { version: file.version, duration: Date.now() - startTime });
+        } catch (error: any) {
+            Logger.error(error, { message: `Migration ${direction} failed`, version: file.version });
+
+            try {
+                await this.transactionManager.rollback();
+            } catch (rollbackError) {
+                Logger.error(rollbackError as Error, { message: 'Rollback failed after migration error.' });
+            }
+
+            throw new MigrationError(`Migration ${file.version}_${file.name} failed (${direction}): ${error.message}`, file.version);
+        }
+    }
+}
+
+function toClassName(slug: string): string {
+    const className = slug.split('_').filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+    return /^\d/.test(className) ? `Migration${className}` : className;
+}
+
+function renderTemplate(className: string, typescript: boolean): string {
+    if (typescript) {
+        return `import { Migration, TransactionManager } from 'peculiar-orm';
+
+export default class ${className} implements Migration {
+    async up(transactionManager: TransactionManager): Promise<void> {
+        await transactionManager.getClient().query(\`\`);
+    }
+
+    async down(transactionManager: TransactionManager): Promise<void> {
+        await transactionManager.getClient().query(\`\`);
+    }
+}
+`;
+    }
+
+    return `/** @implements {import('peculiar-orm').Migration} */
+class ${className} {
+    /** @param {import('peculiar-orm').TransactionManager} transactionManager */
+    async up(transactionManager) {
+        await transactionManager.getClient().query(\`\`);
+    }
+
+    /** @param {import('peculiar-orm').TransactionManager} transactionManager */
+    async down(transactionManager) {
+        await transactionManager.getClient().query(\`\`);
+    }
+}
+
+module.exports = ${className};
+`;
+}
+
+/**
+ * Writes an empty migration to `directory`, creating it if needed. The file is named after
+ * the current UTC time and `name` in snake case, such as `20240101120000_add_users.js`.
+ * Returns the file's path.
+ */
+export function createMigration(directory: string, name: string, options: { typescript?: boolean } = {}): string {
+    const slug = name.trim()
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/\W+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .toLowerCase();
+    if (!slug) {
+        throw new OrmError(`Invalid migration name ${JSON.stringify(name)}`);
+    }
+
+    const version = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+    const path = join(resolve(directory), `${version}_${slug}.${options.typescript ? 'ts' : 'js'}`);
+
+    mkdirSync(resolve(directory), { recursive: true });
+    writeFileSync(path, renderTemplate(toClassName(slug), !!options.typescript), { flag: 'wx' });
+    Logger.info('Created migration', { path });
+    return path;
+}
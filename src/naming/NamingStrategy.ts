@@ -0,0 +1,45 @@
+export interface NamingStrategy {
+    tableName(className: string, explicitName?: string): string;
+    columnName(propertyKey: string, explicitName?: string): string;
+}
+
+export class IdentityNamingStrategy implements NamingStrategy {
+    tableName(className: string, explicitName?: string): string {
+        return explicitName || className;
+    }
+
+    columnName(propertyKey: string, explicitName?: string): string {
+        return explicitName || propertyKey;
+    }
+}
+
+export class SnakeCaseNamingStrategy implements NamingStrategy {
+    tableName(className: string, explicitName?: string): string {
+        return explicitName || toSnakeCase(className);
+    }
+
+    columnName(propertyKey: string, explicitName?: string): string {
+        return explicitName || toSnakeCase(propertyKey);
+    }
+}
+
+export function toSnakeCase(value: string): string {
+    return value
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+        .toLowerCase();
+}
+
+let defaultNamingStrategy: NamingStrategy = new IdentityNamingStrategy();
+
+/**
+ * Sets the strategy used by entities that do not declare their own through `@Entity({ namingStrategy })`.
+ * Call it before any repository or `SchemaSync` reads entity metadata.
+ */
+export function setDefaultNamingStrategy(strategy: NamingStrategy): void {
+    defaultNamingStrategy = strategy;
+}
+
+export function getDefaultNamingStrategy(): NamingStrategy {
+    return defaultNamingStrategy;
+}
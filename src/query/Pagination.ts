@@ -0,0 +1,68 @@
+import { Where } from './Where';
+import { SortDirection } from './SelectQueryBuilder';
+import { OrmError } from '../errors/OrmError';
+import { ReadOptions } from '../types';
+
+export type OrderBy<T> = { [K in keyof T]?: SortDirection };
+
+export interface PageOptions<T> extends ReadOptions {
+    where?: Where<T>;
+    orderBy?: OrderBy<T>;
+    /** 1-based page number. */
+    page?: number;
+    pageSize?: number;
+}
+
+export interface Page<T> {
+    items: T[];
+    total: number;
+    page: number;
+    pageSize: number;
+}
+
+export interface CursorOptions<T> extends ReadOptions {
+    where?: Where<T>;
+    orderBy?: OrderBy<T>;
+    /** Opaque cursor returned as `nextCursor` by the previous call. */
+    after?: string | null;
+    limit?: number;
+}
+
+export interface CursorPage<T> {
+    items: T[];
+    nextCursor: string | null;
+    hasMore: boolean;
+}
+
+interface CursorPayload {
+    /** The ordering the cursor was produced for, e.g. `['createdAt:DESC', 'id:ASC']`. */
+    k: string[];
+    v: any[];
+}
+
+export function encodeCursor(ordering: string[], values: any[]): string {
+    const payload: CursorPayload = { k: ordering, v: values };
+    const json = JSON.stringify(payload, (_, value) => typeof value === 'bigint' ? value.toString() : value);
+    return Buffer.from(json, 'utf8').toString('base64url');
+}
+
+/**
+ * Decodes a cursor and checks it was produced for the same ordering, so a cursor
+ * from one sort order cannot silently be applied to another.
+ */
+export function decodeCursor(cursor: string, ordering: string[]): any[] {
+    let payload: CursorPayload;
+    try {
+        payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new OrmError('Invalid pagination cursor');
+    }
+
+    if (!payload || !Array.isArray(payload.k) || !Array.isArray(payload.v) || payload.v.length !== ordering.length) {
+        throw new OrmError('Invalid pagination cursor');
+    }
+    if (payload.k.join(',') !== ordering.join(',')) {
+        throw new OrmError('Pagination cursor does not match the requested ordering');
+    }
+    return payload.v;
+}
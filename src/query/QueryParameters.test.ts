@@ -0,0 +1,29 @@
+import { chunkByParameterLimit, MAX_QUERY_PARAMETERS, QueryParameters } from './QueryParameters';
+
+describe('QueryParameters', () => {
+    it('numbers placeholders after its offset', () => {
+        const params = new QueryParameters(2);
+        expect([params.add('a'), params.add('b')]).toEqual(['$3', '$4']);
+        expect(params.getValues()).toEqual(['a', 'b']);
+        expect(params.nextIndex).toBe(5);
+    });
+});
+
+describe('chunkByParameterLimit', () => {
+    it('keeps every chunk within the limit, in input order', () => {
+        const items = Array.from({ length: 10 }, (_, index) => index);
+        const chunks = chunkByParameterLimit(items, 3, 10);
+
+        expect(chunks).toEqual([[0, 1, 2], [3, 4, 5], [6, 7, 8], [9]]);
+        expect(chunks.every(chunk => chunk.length * 3 <= 10)).toBe(true);
+    });
+
+    it('defaults to the Postgres bind parameter limit', () => {
+        const items = Array.from({ length: MAX_QUERY_PARAMETERS + 1 }, (_, index) => index);
+        expect(chunkByParameterLimit(items, 1).map(chunk => chunk.length)).toEqual([MAX_QUERY_PARAMETERS, 1]);
+    });
+
+    it('puts items wider than the limit in chunks of one', () => {
+        expect(chunkByParameterLimit(['a', 'b'], 20, 10)).toEqual([['a'], ['b']]);
+    });
+});
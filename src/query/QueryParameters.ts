@@ -0,0 +1,35 @@
+/**
+ * Collects bind values and hands out their `$n` placeholders, so fragments built
+ * independently can be combined without renumbering.
+ */
+export class QueryParameters {
+    private readonly values: any[] = [];
+
+    constructor(private readonly offset: number = 0) { }
+
+    add(value: any): string {
+        this.values.push(value);
+        return `$${this.offset + this.values.length}`;
+    }
+
+    getValues(): any[] {
+        return [...this.values];
+    }
+
+    get nextIndex(): number {
+        return this.offset + this.values.length + 1;
+    }
+}
+
+/** The most bind parameters Postgres accepts in a single statement. */
+export const MAX_QUERY_PARAMETERS = 65535;
+
+/** Splits `items` into chunks whose statements stay within the bind parameter limit. */
+export function chunkByParameterLimit<E>(items: E[], parametersPerItem: number, limit: number = MAX_QUERY_PARAMETERS): E[][] {
+    const chunkSize = Math.max(1, Math.floor(limit / Math.max(1, parametersPerItem)));
+    const chunks: E[][] = [];
+    for (let start = 0; start < items.length; start += chunkSize) {
+        chunks.push(items.slice(start, start + chunkSize));
+    }
+    return chunks;
+}
@@ -0,0 +1,392 @@
+import { QueryResult, QueryResultRow } from 'pg';
+import { QueryParameters } from './QueryParameters';
+import { compileWhere, Where } from './Where';
+import {
+    formatTableName, getColumnMetadata, getEmbeddedColumnPaths, getTableMetadata, isEmbeddedPath, renderSoftDeleteCondition
+} from '../decorators';
+import { OrmError, UnknownColumnError } from '../errors/OrmError';
+import { quoteIdentifier } from '../utils/Identifier';
+import { transformToDatabase } from '../transformers/ValueTransformer';
+import { ReadOptions, SoftDeleteOptions } from '../types';
+
+/**
+ * What a repository hands to its query builders: the table to select from, how to
+ * resolve and validate root properties, and how to execute and hydrate the result.
+ */
+export interface QueryBuilderContext<T> {
+    tableName: string;
+    toColumnName(propertyKey: string): string;
+    /** Converts a compared value to its stored form, e.g. through a column transformer. */
+    toDatabaseValue?(propertyKey: string, value: any): any;
+    /** Whether a root property path names an `@Embedded` object. */
+    isEmbedded?(propertyKey: string): boolean;
+    /** Property paths of a root `@Embedded` object's columns, relative to it. */
+    embeddedProperties?(propertyKey: string): string[];
+    /** The condition hiding soft-deleted root rows under the quoted alias `qualifier`, if any. */
+    softDeleteCondition?(qualifier: string, scope: SoftDeleteOptions): string;
+    execute<R extends QueryResultRow = any>(query: string, params: any[]): Promise<QueryResult<R>>;
+    mapRows(rows: QueryResultRow[], options?: ReadOptions): T[];
+    /** Completes a read like the repository's own reads: relations, then `afterLoad` listeners. */
+    finishLoad?(entities: T[], options?: ReadOptions): Promise<T[]>;
+}
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface LockOptions {
+    /** Restricts the lock to the given table aliases. */
+    of?: string[];
+    skipLocked?: boolean;
+    noWait?: boolean;
+}
+
+/** Named parameters for raw fragments, referenced as `:name`. */
+export type RawParameters = Record<string, any>;
+
+type Fragment = (params: QueryParameters) => string;
+
+interface JoinPart {
+    type: 'INNER' | 'LEFT';
+    alias: string;
+    render: Fragment;
+}
+
+const NAMED_PARAMETER = /(?<!:):([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Replaces `:name` references in a raw SQL fragment with allocated placeholders.
+ * Casts such as `::int` and names missing from `values` are left untouched.
+ */
+export function bindNamedParameters(sql: string, values: RawParameters, params: QueryParameters): string {
+    return sql.replace(NAMED_PARAMETER, (match, name: string) => {
+        return Object.prototype.hasOwnProperty.call(values, name) ? params.add(values[name]) : match;
+    });
+}
+
+/**
+ * Fluent builder for `SELECT` statements. Property references are either root entity
+ * properties (`'email'`) or `'alias.property'` for joined tables; both are validated
+ * and quoted. Raw SQL is only accepted by the methods that say so, with `:name` parameters.
+ */
+export class SelectQueryBuilder<T, R = T> {
+    private projection: string[] | null = null;
+    private readonly extraSelections: Fragment[] = [];
+    private readonly joins: JoinPart[] = [];
+    private readonly joinedEntities = new Map<string, Function | undefined>();
+    private whereParts: Array<{ connector: 'AND' | 'OR'; render: Fragment }> = [];
+    private readonly groupings: string[] = [];
+    private readonly havingParts: Fragment[] = [];
+    private orderings: string[] = [];
+    private limitValue?: number;
+    private offsetValue?: number;
+    private lock?: LockOptions;
+    private deletedScope: SoftDeleteOptions = {};
+
+    constructor(private readonly context: QueryBuilderContext<T>, private readonly alias: string) { }
+
+    select<K extends keyof T & string>(...properties: K[]): SelectQueryBuilder<T, Pick<T, K>> {
+        this.projection = properties.map(property => this.resolvePath(property));
+        return this as unknown as SelectQueryBuilder<T, Pick<T, K>>;
+    }
+
+    /** Adds a raw expression to the projection; the value is typed as `V` under `alias`. */
+    addSelect<A extends string, V = unknown>(
+        expression: string,
+        alias: A,
+        values: RawParameters = {}
+    ): SelectQueryBuilder<T, R & { [P in A]: V }> {
+        this.extraSelections.push(params => `${bindNamedParameters(expression, values, params)} AS ${quoteIdentifier(alias)}`);
+        return this as unknown as SelectQueryBuilder<T, R & { [P in A]: V }>;
+    }
+
+    addSelectSubquery<A extends string, V = unknown>(
+        subQuery: SelectQueryBuilder<any, any>,
+        alias: A
+    ): SelectQueryBuilder<T, R & { [P in A]: V }> {
+        this.extraSelections.push(params => `(${subQuery.render(params)}) AS ${quoteIdentifier(alias)}`);
+        return this as unknown as SelectQueryBuilder<T, R & { [P in A]: V }>;
+    }
+
+    /**
+     * Joins an `@Entity` class or a table name. `on` is raw SQL; joined entity
+     * properties can afterwards be referenced as `'alias.property'`.
+     */
+    innerJoin(target: Function | string, alias: string, on: string, values: RawParameters = {}): this {
+        return this.join('INNER', target, alias, on, values);
+    }
+
+    leftJoin(target: Function | string, alias: string, on: string, values: RawParameters = {}): this {
+        return this.join('LEFT', target, alias, on, values);
+    }
+
+    where(condition: Where<T>): this;
+    where(sql: string, values?: RawParameters): this;
+    where(condition: Where<T> | string, values?: RawParameters): this {
+        this.whereParts = [];
+        return this.andWhere(condition as any, values);
+    }
+
+    andWhere(condition: Where<T>): this;
+    andWhere(sql: string, values?: RawParameters): this;
+    andWhere(condition: Where<T> | string, values?: RawParameters): this {
+        this.whereParts.push({ connector: 'AND', render: this.toConditionFragment(condition, values) });
+        return this;
+    }
+
+    orWhere(condition: Where<T>): this;
+    orWhere(sql: string, values?: RawParameters): this;
+    orWhere(condition: Where<T> | string, values?: RawParameters): this {
+        this.whereParts.push({ connector: 'OR', render: this.toConditionFragment(condition, values) });
+        return this;
+    }
+
+    whereExists(subQuery: SelectQueryBuilder<any, any>): this {
+        this.whereParts.push({ connector: 'AND', render: params => `EXISTS (${subQuery.render(params)})` });
+        return this;
+    }
+
+    whereInSubquery(path: string, subQuery: SelectQueryBuilder<any, any>): this {
+        const column = this.resolvePath(path);
+        this.whereParts.push({ connector: 'AND', render: params => `${column} IN (${subQuery.render(params)})` });
+        return this;
+    }
+
+    orderBy(path: string, direction: SortDirection = 'ASC', nulls?: 'FIRST' | 'LAST'): this {
+        this.orderings = [];
+        return this.addOrderBy(path, direction, nulls);
+    }
+
+    addOrderBy(path: string, direction: SortDirection = 'ASC', nulls?: 'FIRST' | 'LAST'): this {
+        const order = `${this.resolvePath(path)} ${direction === 'DESC' ? 'DESC' : 'ASC'}`;
+        this.orderings.push(nulls ? `${order} NULLS ${nulls === 'FIRST' ? 'FIRST' : 'LAST'}` : order);
+        return this;
+    }
+
+    groupBy(...paths: string[]): this {
+        this.groupings.push(...paths.map(path => this.resolvePath(path)));
+        return this;
+    }
+
+    having(sql: string, values: RawParameters = {}): this {
+        this.havingParts.push(params => bindNamedParameters(sql, values, params));
+        return this;
+    }
+
+    limit(limit: number): this {
+        this.limitValue = limit;
+        return this;
+    }
+
+    offset(offset: number): this {
+        this.offsetValue = offset;
+        return this;
+    }
+
+    forUpdate(options: LockOptions = {}): this {
+        this.lock = options;
+        return this;
+    }
+
+    /** Includes soft-deleted rows of the root and joined entities. */
+    withDeleted(): this {
+        this.deletedScope = { withDeleted: true };
+        return this;
+    }
+
+    /** Returns soft-deleted root rows only; joined entities still skip deleted rows. */
+    onlyDeleted(): this {
+        this.deletedScope = { onlyDeleted: true };
+        return this;
+    }
+
+    /**
+     * Renders the statement into `params`. Used directly when embedding this builder
+     * as a subquery, so placeholders continue the outer query's numbering.
+     */
+    render(params: QueryParameters): string {
+        return this.renderStatement(params, true);
+    }
+
+    private renderStatement(params: QueryParameters, includeOrderingAndLock: boolean): string {
+        const projection = [
+            ...(this.projection ?? [`${quoteIdentifier(this.alias)}.*`]),
+            ...this.extraSelections.map(selection => selection(params))
+        ];
+
+        const clauses = [
+            `SELECT ${projection.join(', ')}`,
+            `FROM ${this.context.tableName} AS ${quoteIdentifier(this.alias)}`,
+            ...this.joins.map(join => `${join.type} JOIN ${join.render(params)}`)
+        ];
+
+        const where = [
+            this.renderWhere(params),
+            this.context.softDeleteCondition?.(quoteIdentifier(this.alias), this.deletedScope) ?? ''
+        ].filter(condition => condition.length > 0);
+        if (where.length > 0) clauses.push(`WHERE ${where.join(' AND ')}`);
+        if (this.groupings.length > 0) clauses.push(`GROUP BY ${this.groupings.join(', ')}`);
+        if (this.havingParts.length > 0) {
+            clauses.push(`HAVING ${this.havingParts.map(part => `(${part(params)})`).join(' AND ')}`);
+        }
+        if (includeOrderingAndLock && this.orderings.length > 0) clauses.push(`ORDER BY ${this.orderings.join(', ')}`);
+        if (this.limitValue !== undefined) clauses.push(`LIMIT ${params.add(this.limitValue)}`);
+        if (this.offsetValue !== undefined) clauses.push(`OFFSET ${params.add(this.offsetValue)}`);
+        if (includeOrderingAndLock && this.lock) clauses.push(this.renderLock(this.lock));
+
+        return clauses.join(' ');
+    }
+
+    getQuery(): { text: string; values: any[] } {
+        const params = new QueryParameters();
+        const text = this.render(params);
+        return { text, values: params.getValues() };
+    }
+
+    async getRawMany<Row extends QueryResultRow = any>(): Promise<Row[]> {
+        const { text, values } = this.getQuery();
+        const result = await this.context.execute<Row>(text, values);
+        return result.rows;
+    }
+
+    async getMany(options: ReadOptions = {}): Promise<R[]> {
+        const rows = await this.getRawMany();
+        const entities = this.context.mapRows(rows, options);
+        return (this.context.finishLoad ? await this.context.finishLoad(entities, options) : entities) as unknown as R[];
+    }
+
+    async getOne(options: ReadOptions = {}): Promise<R | null> {
+        const [first] = await this.getMany(options);
+        return first ?? null;
+    }
+
+    /** Counts the rows the query would return, ignoring ordering and row locks. */
+    async getCount(): Promise<number> {
+        const params = new QueryParameters();
+        const text = `SELECT COUNT(*) AS count FROM (${this.renderStatement(params, false)}) AS ${quoteIdentifier(`${this.alias}_count`)}`;
+        const result = await this.context.execute<{ count: string }>(text, params.getValues());
+        return parseInt(result.rows[0].count, 10);
+    }
+
+    private join(type: JoinPart['type'], target: Function | string, alias: string, on: string, values: RawParameters): this {
+        if (alias === this.alias || this.joinedEntities.has(alias)) {
+            throw new OrmError(`Alias ${JSON.stringify(alias)} is already used in this query`);
+        }
+
+        const table = typeof target === 'string'
+            ? quoteIdentifier(target)
+            : formatTableName(getTableMetadata(target));
+
+        this.joinedEntities.set(alias, typeof target === 'string' ? undefined : target);
+        this.joins.push({
+            type,
+            alias,
+            render: params => {
+                const condition = bindNamedParameters(on, values, params);
+                const softDelete = typeof target === 'string'
+                    ? ''
+                    : renderSoftDeleteCondition(target, { withDeleted: this.deletedScope.withDeleted }, quoteIdentifier(alias));
+                return `${table} AS ${quoteIdentifier(alias)} ON ${softDelete ? `(${condition}) AND ${softDelete}` : condition}`;
+            }
+        });
+        return this;
+    }
+
+    private toConditionFragment(condition: Where<T> | string, values?: RawParameters): Fragment {
+        if (typeof condition === 'string') {
+            return params => bindNamedParameters(condition, values || {}, params);
+        }
+
+        return params => compileWhere(condition, {
+            resolveColumn: propertyKey => this.resolvePath(propertyKey),
+            params,
+            transformValue: (propertyKey, value) => this.toDatabaseValue(propertyKey, value),
+            isEmbedded: propertyKey => this.isEmbedded(propertyKey),
+            embeddedProperties: propertyKey => this.embeddedProperties(propertyKey)
+        }) || 'TRUE';
+    }
+
+    private renderWhere(params: QueryParameters): string {
+        return this.whereParts.reduce((sql, part, index) => {
+            const condition = part.render(params);
+            return index === 0 ? `(${condition})` : `(${sql} ${part.connector} (${condition}))`;
+        }, '');
+    }
+
+    private renderLock(lock: LockOptions): string {
+        const parts = ['FOR UPDATE'];
+        if (lock.of && lock.of.length > 0) parts.push(`OF ${lock.of.map(alias => quoteIdentifier(alias)).join(', ')}`);
+        if (lock.skipLocked) parts.push('SKIP LOCKED');
+        else if (lock.noWait) parts.push('NOWAIT');
+        return parts.join(' ');
+    }
+
+    /**
+     * Splits a reference into its alias and property path. A leading segment naming an
+     * embedded object of the root entity, as in `'address.city'`, is not an alias.
+     */
+    private splitPath(path: string): { alias: string; property: string } {
+        const separator = path.indexOf('.');
+        if (separator === -1) {
+            return { alias: this.alias, property: path };
+        }
+
+        const alias = path.slice(0, separator);
+        if (alias !== this.alias && !this.joinedEntities.has(alias) && this.context.isEmbedded?.(alias)) {
+            return { alias: this.alias, property: path };
+        }
+        return { alias, property: path.slice(separator + 1) };
+    }
+
+    private isEmbedded(path: string): boolean {
+        const { alias, property } = this.splitPath(path);
+        if (alias === this.alias) {
+            return this.context.isEmbedded?.(property) ?? false;
+        }
+
+        const entity = this.joinedEntities.get(alias);
+        return !!entity && isEmbeddedPath(entity, property);
+    }
+
+    private embeddedProperties(path: string): string[] {
+        const { alias, property } = this.splitPath(path);
+        if (alias === this.alias) {
+            return this.context.embeddedProperties?.(property) ?? [];
+        }
+
+        const entity = this.joinedEntities.get(alias);
+        return entity ? getEmbeddedColumnPaths(entity, property) : [];
+    }
+
+    private toDatabaseValue(path: string, value: any): any {
+        const { alias, property } = this.splitPath(path);
+
+        if (alias === this.alias) {
+            return this.context.toDatabaseValue ? this.context.toDatabaseValue(property, value) : value;
+        }
+
+        const entity = this.joinedEntities.get(alias);
+        const column = entity && getColumnMetadata(entity).find(col => col.propertyKey === property);
+        return transformToDatabase(value, column?.transformer);
+    }
+
+    private resolvePath(path: string): string {
+        const { alias, property } = this.splitPath(path);
+
+        if (alias === this.alias) {
+            return `${quoteIdentifier(alias)}.${quoteIdentifier(this.context.toColumnName(property))}`;
+        }
+        if (!this.joinedEntities.has(alias)) {
+            throw new OrmError(`Unknown alias ${JSON.stringify(alias)} in ${JSON.stringify(path)}`);
+        }
+
+        const entity = this.joinedEntities.get(alias);
+        if (!entity) {
+            return `${quoteIdentifier(alias)}.${quoteIdentifier(property)}`;
+        }
+
+        const column = getColumnMetadata(entity).find(col => col.propertyKey === property);
+        if (!column) {
+            throw new UnknownColumnError(property, formatTableName(getTableMetadata(entity)));
+        }
+        return `${quoteIdentifier(alias)}.${quoteIdentifier(column.name)}`;
+    }
+}
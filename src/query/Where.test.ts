@@ -0,0 +1,146 @@
+import { Column, Embedded, Entity, PrimaryGeneratedColumn } from '../decorators';
+import { OrmError } from '../errors/OrmError';
+import { createRepository } from '../repository/EntityRepository';
+import { fakeTransactionManager } from '../testing/FakeTransactionManager';
+import { DelimitedTransformer } from '../transformers/ValueTransformer';
+import { QueryParameters } from './QueryParameters';
+import { compileWhere, Where, WhereContext } from './Where';
+
+class Geo {
+    @Column({ type: 'double precision' })
+    lat!: number;
+
+    @Column({ type: 'double precision' })
+    lng!: number;
+}
+
+class Address {
+    @Column({ type: 'text' })
+    city!: string;
+
+    @Embedded(() => Geo)
+    geo!: Geo;
+}
+
+@Entity({ name: 'customers' })
+class Customer {
+    @PrimaryGeneratedColumn('increment')
+    id!: number;
+
+    @Column({ type: 'text', transformer: new DelimitedTransformer() })
+    tags!: string[];
+
+    @Embedded(() => Address, { prefix: 'billing_' })
+    billing!: Address | null;
+}
+
+/** Compiles `where` with every property quoted as its own column name. */
+function compile(where: Where<any>, context: Partial<WhereContext> = {}): { sql: string; values: any[] } {
+    const params = new QueryParameters();
+    const sql = compileWhere(where, { resolveColumn: propertyKey => `"${propertyKey}"`, params, ...context });
+    return { sql, values: params.getValues() };
+}
+
+describe('compileWhere', () => {
+    it('joins property conditions with AND and binds their values', () => {
+        expect(compile({ name: 'a', quantity: null })).toEqual({
+            sql: '("name" = $1) AND ("quantity" IS NULL)',
+            values: ['a']
+        });
+    });
+
+    it('compiles every field operator', () => {
+        const { sql, values } = compile({
+            a: { $ne: null },
+            b: { $ne: 1 },
+            c: { $in: [1, 2], $nin: [3] },
+            d: { $gt: 1, $lte: 5 },
+            e: { $between: [1, 2] },
+            f: { $ilike: 'x%' },
+            g: { $isNull: false },
+            h: { $contains: ['x'], $overlap: ['y'] },
+            i: { $not: { $eq: null } }
+        });
+
+        expect(sql).toBe('("a" IS NOT NULL) AND ("b" IS DISTINCT FROM $1) AND ("c" IN ($2, $3) AND "c" NOT IN ($4))'
+            + ' AND ("d" > $5 AND "d" <= $6) AND ("e" BETWEEN $7 AND $8) AND ("f" ILIKE $9) AND ("g" IS NOT NULL)'
+            + ' AND ("h" @> $10 AND "h" && $11) AND (NOT ("i" IS NULL))');
+        expect(values).toEqual([1, 1, 2, 3, 1, 5, 1, 2, 'x%', ['x'], ['y']]);
+    });
+
+    it('compiles empty lists to constant conditions', () => {
+        expect(compile({ a: { $in: [] }, b: { $nin: [] } }).sql).toBe('(FALSE) AND (TRUE)');
+        expect(compile({ $or: [] }).sql).toBe('FALSE');
+        expect(compile({ $and: [{}] }).sql).toBe('TRUE');
+        expect(compile({}).sql).toBe('');
+    });
+
+    it('nests logical operators', () => {
+        expect(compile({ $or: [{ a: 1 }, { $and: [{ b: 2 }, { c: 3 }] }], $not: { d: 4 } }).sql)
+            .toBe('(("a" = $1) OR (("b" = $2) AND ("c" = $3))) AND (NOT ("d" = $4))');
+    });
+
+    it('transforms compared values but not patterns or array operands', () => {
+        const { values } = compile(
+            { a: 'x', b: { $in: ['y', 'z'] }, c: { $like: 'p%', $contains: ['q'] }, d: null },
+            { transformValue: (_propertyKey, value) => String(value).toUpperCase() }
+        );
+
+        expect(values).toEqual(['X', 'Y', 'Z', 'p%', ['q']]);
+    });
+
+    it('rejects unknown operators and malformed operands', () => {
+        expect(() => compile({ a: { $regex: 'x' } })).toThrow(OrmError);
+        expect(() => compile({ a: { $in: 'x' } })).toThrow('$in expects an array');
+        expect(() => compile({ a: { $between: [1] } })).toThrow('$between expects a [from, to] tuple');
+        expect(() => compile({ $or: { a: 1 } } as any)).toThrow('$or expects an array of conditions');
+    });
+
+    describe('through a repository', () => {
+        beforeEach(() => {
+            jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        });
+
+        async function findByCondition(where: Where<Customer>) {
+            const { transactionManager, queries } = fakeTransactionManager(() => []);
+            await createRepository(Customer, transactionManager).findByCondition(where);
+            return queries[0];
+        }
+
+        it('passes compared values through the column transformer', async () => {
+            const query = await findByCondition({ tags: { $in: [['a', 'b'], ['c']] } });
+
+            expect(query.text).toContain('WHERE "tags" IN ($1, $2)');
+            expect(query.values).toEqual(['a,b', 'c']);
+        });
+
+        it('filters embedded objects by their columns', async () => {
+            const query = await findByCondition({ billing: { city: 'Oslo', geo: { lat: { $gt: 59 } } } });
+
+            expect(query.text).toContain('WHERE ("billing_city" = $1) AND ("billing_geo_lat" > $2)');
+        });
+
+        it('matches a null embedded object as all of its columns NULL', async () => {
+            const query = await findByCondition({ billing: null });
+
+            expect(query.text).toContain('WHERE ("billing_city" IS NULL) AND ("billing_geo_lat" IS NULL) AND ("billing_geo_lng" IS NULL)');
+        });
+
+        it('matches a null nested embedded object', async () => {
+            const query = await findByCondition({ billing: { geo: null } });
+
+            expect(query.text).toContain('WHERE ("billing_geo_lat" IS NULL) AND ("billing_geo_lng" IS NULL)');
+        });
+
+        it('matches a null embedded object in the query builder, on the root and on joins', () => {
+            const { transactionManager } = fakeTransactionManager(() => []);
+            const { text } = createRepository(Customer, transactionManager).createQueryBuilder('c')
+                .leftJoin(Customer, 'other', '"other"."id" = "c"."id"')
+                .where({ billing: { geo: null }, 'other.billing': null } as Where<Customer>)
+                .getQuery();
+
+            expect(text).toContain('("c"."billing_geo_lat" IS NULL) AND ("c"."billing_geo_lng" IS NULL)');
+            expect(text).toContain('("other"."billing_city" IS NULL) AND ("other"."billing_geo_lat" IS NULL)');
+        });
+    });
+});
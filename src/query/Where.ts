@@ -0,0 +1,185 @@
+import { QueryParameters } from './QueryParameters';
+import { OrmError } from '../errors/OrmError';
+
+type ArrayElement<V> = V extends ReadonlyArray<infer E> ? E : never;
+
+export interface FieldOperators<V> {
+    $eq?: V | null;
+    $ne?: V | null;
+    $in?: V[];
+    $nin?: V[];
+    $gt?: V;
+    $gte?: V;
+    $lt?: V;
+    $lte?: V;
+    $like?: string;
+    $ilike?: string;
+    $isNull?: boolean;
+    $between?: [V, V];
+    /** Array column contains every given element (`@>`). */
+    $contains?: ArrayElement<V>[];
+    /** Array column shares at least one element with the given ones (`&&`). */
+    $overlap?: ArrayElement<V>[];
+    $not?: FieldOperators<V>;
+}
+
+/** Conditions on the properties of an `@Embedded` object. */
+export type EmbeddedCondition<V> = V extends Date | Buffer | ReadonlyArray<any> | Function
+    ? never
+    : V extends object ? { [K in keyof V]?: FieldCondition<V[K]> } : never;
+
+export type FieldCondition<V> = V | null | FieldOperators<V> | EmbeddedCondition<V>;
+
+export type Where<T> = {
+    [K in keyof T]?: FieldCondition<T[K]>;
+} & {
+    $or?: Where<T>[];
+    $and?: Where<T>[];
+    $not?: Where<T>;
+};
+
+export interface WhereContext {
+    /** Returns the quoted SQL expression for a property; expected to reject unknown properties. */
+    resolveColumn(propertyKey: string): string;
+    params: QueryParameters;
+    /**
+     * Converts a compared value to its stored form, e.g. through a column transformer.
+     * Not applied to pattern and array containment operands.
+     */
+    transformValue?(propertyKey: string, value: any): any;
+    /** Whether a property path names an `@Embedded` object, whose conditions are given as a nested object. */
+    isEmbedded?(propertyKey: string): boolean;
+    /** Property paths of an `@Embedded` object's columns, relative to it, so that `null` can match each of them. */
+    embeddedProperties?(propertyKey: string): string[];
+}
+
+const LOGICAL_OPERATORS = ['$or', '$and', '$not'];
+
+export function isOperatorObject(value: unknown): value is FieldOperators<any> {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+    if (value instanceof Date || Buffer.isBuffer(value)) return false;
+
+    const keys = Object.keys(value);
+    return keys.length > 0 && keys.every(key => key.startsWith('$'));
+}
+
+/**
+ * Compiles a `Where<T>` filter into a SQL condition, without the `WHERE` keyword.
+ * Returns an empty string when the filter has no conditions.
+ */
+export function compileWhere<T>(where: Where<T>, context: WhereContext): string {
+    const conditions: string[] = [];
+
+    for (const [key, condition] of Object.entries(where as Record<string, any>)) {
+        if (condition === undefined) continue;
+
+        if (LOGICAL_OPERATORS.includes(key)) {
+            conditions.push(compileLogical(key, condition, context));
+            continue;
+        }
+
+        if (context.isEmbedded?.(key) && (condition === null || typeof condition === 'object' && !isOperatorObject(condition))) {
+            // A `null` embedded object is stored as `NULL` in every one of its columns.
+            const entries = condition === null
+                ? (context.embeddedProperties?.(key) ?? []).map(property => [property, null])
+                : Object.entries(condition);
+            const nested = Object.fromEntries(entries.map(([property, value]) => [`${key}.${property}`, value]));
+            const compiled = compileWhere(nested, context);
+            if (compiled) conditions.push(compiled);
+            continue;
+        }
+
+        const bind = (value: any) => context.params.add(context.transformValue ? context.transformValue(key, value) : value);
+        conditions.push(compileField(context.resolveColumn(key), condition, context, bind));
+    }
+
+    return conditions.length > 1
+        ? conditions.map(condition => `(${condition})`).join(' AND ')
+        : conditions[0] || '';
+}
+
+function compileLogical(operator: string, condition: any, context: WhereContext): string {
+    if (operator === '$not') {
+        const inner = compileWhere(condition, context);
+        return inner ? `NOT (${inner})` : 'TRUE';
+    }
+
+    if (!Array.isArray(condition)) {
+        throw new OrmError(`${operator} expects an array of conditions`);
+    }
+
+    const parts = condition
+        .map((nested: Where<any>) => compileWhere(nested, context))
+        .filter(part => part.length > 0);
+
+    if (parts.length === 0) {
+        return operator === '$or' ? 'FALSE' : 'TRUE';
+    }
+    return parts.map(part => `(${part})`).join(operator === '$or' ? ' OR ' : ' AND ');
+}
+
+type Bind = (value: any) => string;
+
+function compileField(column: string, condition: any, context: WhereContext, bind: Bind): string {
+    if (!isOperatorObject(condition)) {
+        return condition === null ? `${column} IS NULL` : `${column} = ${bind(condition)}`;
+    }
+
+    const conditions: string[] = [];
+    for (const [operator, operand] of Object.entries(condition)) {
+        if (operand === undefined) continue;
+        conditions.push(compileOperator(column, operator, operand, context, bind));
+    }
+
+    return conditions.length > 0 ? conditions.join(' AND ') : 'TRUE';
+}
+
+function compileOperator(column: string, operator: string, operand: any, context: WhereContext, bind: Bind): string {
+    const { params } = context;
+
+    switch (operator) {
+        case '$eq':
+            return operand === null ? `${column} IS NULL` : `${column} = ${bind(operand)}`;
+        case '$ne':
+            return operand === null ? `${column} IS NOT NULL` : `${column} IS DISTINCT FROM ${bind(operand)}`;
+        case '$in':
+        case '$nin': {
+            if (!Array.isArray(operand)) {
+                throw new OrmError(`${operator} expects an array`);
+            }
+            if (operand.length === 0) {
+                return operator === '$in' ? 'FALSE' : 'TRUE';
+            }
+            const placeholders = operand.map(value => bind(value)).join(', ');
+            return `${column} ${operator === '$in' ? 'IN' : 'NOT IN'} (${placeholders})`;
+        }
+        case '$gt':
+            return `${column} > ${bind(operand)}`;
+        case '$gte':
+            return `${column} >= ${bind(operand)}`;
+        case '$lt':
+            return `${column} < ${bind(operand)}`;
+        case '$lte':
+            return `${column} <= ${bind(operand)}`;
+        case '$like':
+            return `${column} LIKE ${params.add(operand)}`;
+        case '$ilike':
+            return `${column} ILIKE ${params.add(operand)}`;
+        case '$isNull':
+            return operand ? `${column} IS NULL` : `${column} IS NOT NULL`;
+        case '$between': {
+            if (!Array.isArray(operand) || operand.length !== 2) {
+                throw new OrmError('$between expects a [from, to] tuple');
+            }
+            return `${column} BETWEEN ${bind(operand[0])} AND ${bind(operand[1])}`;
+        }
+        case '$contains':
+            return `${column} @> ${params.add(operand)}`;
+        case '$overlap':
+            return `${column} && ${params.add(operand)}`;
+        case '$not':
+            return `NOT (${compileField(column, operand, context, bind)})`;
+        default:
+            throw new OrmError(`Unsupported filter operator ${JSON.stringify(operator)}`);
+    }
+}
@@ -0,0 +1,200 @@
+import { QueryResult, QueryResultRow } from 'pg';
+import {
+    ColumnMetadata,
+    formatTableName,
+    getColumnMetadata,
+    getPrimaryColumns,
+    getRelationMetadata,
+    getTableMetadata,
+    RelationMetadata,
+    renderSoftDeleteCondition
+} from '../decorators';
+import { OrmError, UnknownRelationError } from '../errors/OrmError';
+import { coerceValue, createHydrator } from '../hydration/Hydrator';
+import { chunkByParameterLimit, QueryParameters } from '../query/QueryParameters';
+import { transformFromDatabase, transformToDatabase } from '../transformers/ValueTransformer';
+import { ReadOptions } from '../types';
+import { quoteIdentifier } from '../utils/Identifier';
+
+/** Column carrying the owning entity's key when loading many-to-many relations. */
+const RELATION_OWNER_COLUMN = '__peculiar_owner';
+
+export interface RelationLoaderContext {
+    execute(query: string, params: any[]): Promise<QueryResult>;
+}
+
+/** The requested relation paths plus the entity's eager relations. */
+export function resolveRelationPaths(entity: Function, relations: string[] = []): string[] {
+    const eager = getRelationMetadata(entity)
+        .filter(relation => relation.eager)
+        .map(relation => relation.propertyKey);
+    return [...new Set([...relations, ...eager])];
+}
+
+/**
+ * Loads relation paths onto already read entities with one `IN` query per relation and
+ * level, so reading N entities never costs N queries. Many-to-one properties are set to
+ * the related entity or `null`, collections to arrays. Soft-deleted related rows are
+ * skipped unless `withDeleted` is set.
+ */
+export async function loadRelations(
+    entity: Function,
+    records: any[],
+    paths: string[],
+    context: RelationLoaderContext,
+    options: ReadOptions = {}
+): Promise<void> {
+    if (records.length === 0 || paths.length === 0) return;
+
+    const nestedPaths = new Map<string, string[]>();
+    for (const path of paths) {
+        const [head, ...rest] = path.split('.');
+        const nested = nestedPaths.get(head) ?? [];
+        if (rest.length > 0) nested.push(rest.join('.'));
+        nestedPaths.set(head, nested);
+    }
+
+    const relations = getRelationMetadata(entity);
+    for (const [propertyKey, nested] of nestedPaths) {
+        const relation = relations.find(candidate => candidate.propertyKey === propertyKey);
+        if (!relation) {
+            throw new UnknownRelationError(propertyKey, entity.name);
+        }
+
+        const related = await loadRelation(entity, relation, records, context, options);
+        await loadRelations(relation.target, related, nested, context, options);
+    }
+}
+
+function getKeyColumn(entity: Function): ColumnMetadata {
+    const primaryColumns = getPrimaryColumns(entity);
+    if (primaryColumns.length !== 1) {
+        throw new OrmError(`Relations require ${entity.name} to have a single column primary key`);
+    }
+    return primaryColumns[0];
+}
+
+/** Distinct non-null values, keyed by their string form so `1`, `1n` and `'1'` match. */
+function collectKeys(values: any[]): Map<string, any> {
+    const keys = new Map<string, any>();
+    for (const value of values) {
+        if (value !== null && value !== undefined) keys.set(String(value), value);
+    }
+    return keys;
+}
+
+async function loadRelation(
+    entity: Function,
+    relation: RelationMetadata,
+    records: any[],
+    context: RelationLoaderContext,
+    options: ReadOptions
+): Promise<any[]> {
+    const targetKey = getKeyColumn(relation.target);
+
+    if (relation.kind === 'many-to-one') {
+        const keys = [...collectKeys(records.map(record => record[relation.joinColumn!])).values()];
+        const related = await fetchRelated(relation.target, targetKey, keys, context, options);
+        const byKey = new Map(related.map(({ entity: target }) => [String(target[targetKey.propertyKey]), target]));
+
+        for (const record of records) {
+            const key = record[relation.joinColumn!];
+            record[relation.propertyKey] = key === null || key === undefined ? null : byKey.get(String(key)) ?? null;
+        }
+        return related.map(({ entity: target }) => target);
+    }
+
+    const ownerKey = getKeyColumn(entity);
+    const keys = [...collectKeys(records.map(record => record[ownerKey.propertyKey])).values()];
+    const inverseJoinColumn = getColumnMetadata(relation.target).find(column => column.propertyKey === relation.joinColumn);
+    const related = relation.kind === 'one-to-many'
+        ? await fetchRelated(relation.target, inverseJoinColumn!, keys, context, options)
+        : await fetchThroughJoinTable(relation, ownerKey, keys, context, options);
+
+    const byOwner = new Map<string, any[]>();
+    for (const { entity: target, owner } of related) {
+        const key = String(relation.kind === 'one-to-many' ? target[relation.joinColumn!] : owner);
+        const collection = byOwner.get(key) ?? [];
+        collection.push(target);
+        byOwner.set(key, collection);
+    }
+
+    for (const record of records) {
+        record[relation.propertyKey] = byOwner.get(String(record[ownerKey.propertyKey])) ?? [];
+    }
+    return related.map(({ entity: target }) => target);
+}
+
+/** Reads the target rows whose `column` is one of `keys`, ordered by primary key. */
+function fetchRelated(
+    target: Function,
+    column: ColumnMetadata,
+    keys: any[],
+    context: RelationLoaderContext,
+    options: ReadOptions
+): Promise<Array<{ entity: any; owner?: any }>> {
+    const related = quoteIdentifier('related');
+    const softDelete = renderSoftDeleteCondition(target, { withDeleted: options.withDeleted }, related);
+    return fetchInChunks(target, keys, context, options, placeholders => `
+        SELECT * FROM ${formatTableName(getTableMetadata(target))} AS ${related}
+        WHERE ${related}.${quoteIdentifier(column.name)} IN (${placeholders.join(', ')})
+        ${softDelete ? `AND ${softDelete}` : ''}
+        ORDER BY ${related}.${quoteIdentifier(getKeyColumn(target).name)}
+    `, key => transformToDatabase(key, column.transformer));
+}
+
+/** Reads the targets linked to the owner `keys` through the join table; each row carries its owner's key. */
+async function fetchThroughJoinTable(
+    relation: RelationMetadata,
+    ownerKey: ColumnMetadata,
+    keys: any[],
+    context: RelationLoaderContext,
+    options: ReadOptions
+): Promise<Array<{ entity: any; owner?: any }>> {
+    const related = quoteIdentifier('related');
+    const joinTable = quoteIdentifier('join');
+    const joinColumn = `${joinTable}.${quoteIdentifier(relation.joinTable!.joinColumn)}`;
+    const targetKey = `${related}.${quoteIdentifier(getKeyColumn(relation.target).name)}`;
+    const softDelete = renderSoftDeleteCondition(relation.target, { withDeleted: options.withDeleted }, related);
+
+    const loaded = await fetchInChunks(relation.target, keys, context, options, placeholders => `
+        SELECT ${related}.*, ${joinColumn} AS ${quoteIdentifier(RELATION_OWNER_COLUMN)}
+        FROM ${formatTableName(getTableMetadata(relation.target))} AS ${related}
+        JOIN ${formatTableName(relation.joinTable!)} AS ${joinTable}
+            ON ${joinTable}.${quoteIdentifier(relation.joinTable!.inverseJoinColumn)} = ${targetKey}
+        WHERE ${joinColumn} IN (${placeholders.join(', ')})
+        ${softDelete ? `AND ${softDelete}` : ''}
+        ORDER BY ${targetKey}
+    `, key => transformToDatabase(key, ownerKey.transformer));
+
+    return options.raw ? loaded : loaded.map(({ entity, owner }) => ({
+        entity,
+        owner: transformFromDatabase(coerceValue(owner, ownerKey), ownerKey.transformer)
+    }));
+}
+
+async function fetchInChunks(
+    target: Function,
+    keys: any[],
+    context: RelationLoaderContext,
+    options: ReadOptions,
+    buildQuery: (placeholders: string[]) => string,
+    toParameter: (key: any) => any
+): Promise<Array<{ entity: any; owner?: any }>> {
+    const hydrate = createHydrator<any>(getColumnMetadata(target), {
+        prototype: options.raw ? undefined : target.prototype,
+        coerce: !options.raw
+    });
+    const loaded: Array<{ entity: any; owner?: any }> = [];
+
+    for (const chunk of chunkByParameterLimit(keys, 1)) {
+        const params = new QueryParameters();
+        const query = buildQuery(chunk.map(key => params.add(toParameter(key))));
+        const result = await context.execute(query, params.getValues());
+
+        for (const { [RELATION_OWNER_COLUMN]: owner, ...row } of result.rows as QueryResultRow[]) {
+            loaded.push({ entity: hydrate(row), owner });
+        }
+    }
+    return loaded;
+}
@@ -0,0 +1,114 @@
+import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn } from '../decorators';
+import { ValidationError } from '../errors/OrmError';
+import { encodeCursor } from '../query/Pagination';
+import { fakeTransactionManager } from '../testing/FakeTransactionManager';
+import { IsRequired, Length } from '../validation/Validation';
+import { createRepository } from './EntityRepository';
+
+@Entity({ name: 'events' })
+class Event {
+    @PrimaryGeneratedColumn('increment')
+    id!: number;
+
+    @Column({ type: 'integer', nullable: true })
+    rank?: number | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
+
+@Entity({ name: 'signups' })
+class Signup {
+    @PrimaryGeneratedColumn('increment')
+    id!: number;
+
+    @Column({ type: 'text' })
+    @IsRequired()
+    @Length(3, 50)
+    email!: string;
+}
+
+describe('BaseRepository', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    describe('findCursor', () => {
+        it('keeps the ordering values as Postgres prints them and casts them back', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(() => [
+                { id: 1, rank: null, createdAt: new Date('2024-01-01T10:00:00.123Z'), __peculiar_cursor_0: '2024-01-01 10:00:00.123457+00', __peculiar_cursor_1: '1' },
+                { id: 2, rank: null, createdAt: new Date('2024-01-01T10:00:00.123Z'), __peculiar_cursor_0: '2024-01-01 10:00:00.123456+00', __peculiar_cursor_1: '2' }
+            ]);
+            const events = createRepository(Event, transactionManager);
+
+            const first = await events.findCursor({ orderBy: { createdAt: 'DESC' }, limit: 1 });
+            await events.findCursor({ orderBy: { createdAt: 'DESC' }, limit: 1, after: first.nextCursor });
+
+            expect(queries[0].text).toContain('SELECT *, "createdAt"::text AS "__peculiar_cursor_0", "id"::text AS "__peculiar_cursor_1" FROM');
+            expect(first.items).toHaveLength(1);
+            expect(Object.keys(first.items[0])).not.toContain('__peculiar_cursor_0');
+            expect(queries[1].text).toContain('WHERE (("createdAt" < $1::timestamptz) OR ("createdAt" = $2::timestamptz AND "id" > $3::integer))');
+            expect(queries[1].values).toEqual(['2024-01-01 10:00:00.123457+00', '2024-01-01 10:00:00.123457+00', '1', 2]);
+        });
+
+        it('continues after a NULL sort value ascending with the remaining NULLs only', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(() => []);
+            const after = encodeCursor(['rank:ASC', 'id:ASC'], [null, '5']);
+
+            await createRepository(Event, transactionManager).findCursor({ orderBy: { rank: 'ASC' }, after });
+
+            expect(queries[0].text).toContain('WHERE (("rank" IS NULL AND "id" > $1::integer)) ORDER BY');
+        });
+
+        it('includes NULL sort values after a value ascending', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(() => []);
+            const after = encodeCursor(['rank:ASC', 'id:ASC'], ['3', '5']);
+
+            await createRepository(Event, transactionManager).findCursor({ orderBy: { rank: 'ASC' }, after });
+
+            expect(queries[0].text).toContain('WHERE ((("rank" > $1::integer OR "rank" IS NULL)) OR ("rank" = $2::integer AND "id" > $3::integer))');
+        });
+
+        it('continues after a NULL sort value descending with the NULLs left and every value', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(() => []);
+            const after = encodeCursor(['rank:DESC', 'id:ASC'], [null, '5']);
+
+            await createRepository(Event, transactionManager).findCursor({ orderBy: { rank: 'DESC' }, after });
+
+            expect(queries[0].text).toContain('WHERE (("rank" IS NOT NULL) OR ("rank" IS NULL AND "id" > $1::integer))');
+        });
+
+        it('rejects a cursor made for another ordering', async () => {
+            const { transactionManager } = fakeTransactionManager(() => []);
+            const after = encodeCursor(['rank:ASC', 'id:ASC'], ['3', '5']);
+
+            await expect(createRepository(Event, transactionManager).findCursor({ orderBy: { rank: 'DESC' }, after }))
+                .rejects.toThrow('Pagination cursor does not match the requested ordering');
+        });
+    });
+
+    describe('copyFrom', () => {
+        it('validates each entity and stops at the first invalid one with its position in the source', async () => {
+            const { transactionManager, copied } = fakeTransactionManager(() => []);
+            function* signups() {
+                yield { email: 'ann@example.com' };
+                yield { email: 'x' };
+                yield {};
+            }
+
+            const error = await createRepository(Signup, transactionManager).copyFrom(signups()).catch(caught => caught);
+
+            expect(error).toBeInstanceOf(ValidationError);
+            expect(error.errors).toEqual([{ property: 'email', rule: 'length', message: expect.any(String), index: 1 }]);
+            expect(copied).toEqual([]);
+        });
+
+        it('copies entities that pass validation', async () => {
+            const { transactionManager, copied } = fakeTransactionManager(() => []);
+
+            await createRepository(Signup, transactionManager).copyFrom([{ email: 'ann@example.com' }]);
+
+            expect(copied.join('')).toBe('"ann@example.com"\n');
+        });
+    });
+});
@@ -1,29 +1,406 @@
 import { QueryResult, QueryResultRow } from 'pg';
+import { from as copyFromStdin, to as copyToStdout } from 'pg-copy-streams';
+import { PassThrough, Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { IRepository } from './IRepository';
+import { CopyOptions, CopyToOptions, EntityId, ReadOptions, SoftDeleteOptions, StreamOptions, UpsertOptions } from '../types';
+import { quoteIdentifier } from '../utils/Identifier';
+import { chunkByParameterLimit, MAX_QUERY_PARAMETERS, QueryParameters } from '../query/QueryParameters';
+import { compileWhere, Where, WhereContext } from '../query/Where';
+import { bindNamedParameters, SelectQueryBuilder, SortDirection } from '../query/SelectQueryBuilder';
+import {
+    CursorOptions,
+    CursorPage,
+    decodeCursor,
+    encodeCursor,
+    OrderBy,
+    Page,
+    PageOptions
+} from '../query/Pagination';
+import {
+    BINARY_COPY_HEADER,
+    BINARY_COPY_TRAILER,
+    encodeBinaryRow,
+    encodeCsvRow,
+    getBinaryEncoders,
+    inlineParameters
+} from '../copy/CopyFormat';
+import { createHydrator } from '../hydration/Hydrator';
+import { loadRelations, resolveRelationPaths } from '../relations/RelationLoader';
+import { dispatchEntityEvent, EntityEventKind, hasEntityListeners } from '../subscribers/EntitySubscriber';
+import { validateValues } from '../validation/Validation';
+import { resolveActor } from '../audit/ActorProvider';
+import { ACTOR_SETTING } from '../audit/History';
+import { transformToDatabase } from '../transformers/ValueTransformer';
 import { TransactionManager } from '../connection/TransactionManager';
+import { TimedQueryConfig } from '../connection/ConnectionPoolManager';
 import { Logger, LogLevel } from '../utils/Logger';
 import {
     DatabaseConstraintError,
     DatabaseQueryError,
     DatabaseConnectionError,
-    OrmError
+    OrmError,
+    UnknownColumnError,
+    ValidationError,
+    ValidationFailure
 } from '../errors/OrmError';
-import { getEntityMetadata } from '../decorators';
+import {
+    assertEnumValue,
+    ColumnMetadata,
+    ColumnRole,
+    flattenEmbedded,
+    formatTableName,
+    getColumnByRole,
+    getColumnMetadata,
+    getEmbeddedColumnPaths,
+    getHistoryTableMetadata,
+    getPrimaryColumns,
+    getRelationMetadata,
+    getTableMetadata,
+    getUniqueKeys,
+    isAudited,
+    isEmbeddedPath,
+    RelationMetadata,
+    renderCastType,
+    renderSoftDeleteCondition,
+    resolveColumnName,
+    TableMetadata
+} from '../decorators';
+
+const DEFAULT_PAGE_SIZE = 20;
+const DEFAULT_STREAM_BATCH_SIZE = 500;
+const COPY_CHUNK_BYTES = 64 * 1024;
+
+/** Columns repository updates maintain themselves, so update values for them are dropped. */
+const AUDIT_ROLES: ColumnRole[] = ['createDate', 'createdBy', 'updateDate', 'updatedBy'];
+
+/** Distinguishes the savepoints of nested writes. */
+let savepointCounter = 0;
+
+/** Column carrying a row's input position through bulk statements. */
+export const BULK_ORDINAL_COLUMN = '__peculiar_ordinal';
+
+/** Column telling inserted from updated rows in upsert results. */
+const UPSERT_INSERTED_COLUMN = '__peculiar_inserted';
+
+/** Prefix of the columns carrying the text form of each ordering value in `findCursor` queries. */
+const CURSOR_COLUMN_PREFIX = '__peculiar_cursor_';
 
 export abstract class BaseRepository<T> implements IRepository<T> {
+    protected readonly entity?: Function;
     protected readonly tableName: string;
+    protected readonly schemaName: string;
     protected transactionManager: TransactionManager;
 
-    constructor(transactionManager: TransactionManager, tableName: string) {
+    /**
+     * Accepts either an `@Entity` decorated class, from which the table name and schema
+     * are resolved, or a plain table name in the `public` schema.
+     */
+    constructor(transactionManager: TransactionManager, entityOrTableName: Function | string) {
         this.transactionManager = transactionManager;
-        this.tableName = tableName;
+
+        if (typeof entityOrTableName === 'string') {
+            this.tableName = entityOrTableName;
+            this.schemaName = 'public';
+        } else {
+            const table = getTableMetadata(entityOrTableName);
+            this.entity = entityOrTableName;
+            this.tableName = table.name;
+            this.schemaName = table.schema;
+        }
+    }
+
+    protected get qualifiedTableName(): string {
+        return formatTableName({ name: this.tableName, schema: this.schemaName });
+    }
+
+    protected getColumnMetadata(): ColumnMetadata[] {
+        return this.entity ? getColumnMetadata(this.entity) : [];
+    }
+
+    protected getColumnsByProperty(): Map<string, ColumnMetadata> {
+        return new Map(this.getColumnMetadata().map(column => [column.propertyKey, column]));
+    }
+
+    /**
+     * Validates enum values and converts a property value to its stored form through the
+     * column's transformers. Pass `columns` when converting many values to avoid re-reading
+     * the metadata.
+     */
+    protected toDatabaseValue(propertyKey: string, value: any, columns: Map<string, ColumnMetadata> = this.getColumnsByProperty()): any {
+        const column = columns.get(propertyKey);
+        if (!column) return value;
+
+        assertEnumValue(column, value);
+        return transformToDatabase(value, column.transformer);
+    }
+
+    /**
+     * Resolves the declared primary key columns of the entity, in declaration order.
+     * Repositories created from a plain table name fall back to the legacy `_id` column.
+     */
+    protected getPrimaryColumns(): Array<{ propertyKey: string; name: string }> {
+        if (!this.entity) {
+            return [{ propertyKey: '_id', name: '_id' }];
+        }
+
+        const primaryColumns = getPrimaryColumns(this.entity);
+        if (primaryColumns.length === 0) {
+            throw new OrmError(`Entity ${this.entity.name} does not declare a primary key column`);
+        }
+        return primaryColumns;
+    }
+
+    protected isPrimaryKeyProperty(propertyKey: string): boolean {
+        if (!this.entity) {
+            return propertyKey === 'id' || propertyKey === '_id';
+        }
+        return this.getPrimaryColumns().some(column => column.propertyKey === propertyKey);
+    }
+
+    /**
+     * Extracts the primary key of an entity: the bare value for single keys,
+     * or an object of key properties for composite keys.
+     */
+    protected getEntityId(entity: Partial<T>): EntityId<T> {
+        const primaryColumns = this.getPrimaryColumns();
+        if (!this.entity) {
+            return (entity as any)._id || (entity as any).id;
+        }
+        if (primaryColumns.length === 1) {
+            return (entity as any)[primaryColumns[0].propertyKey];
+        }
+
+        const id: Record<string, any> = {};
+        primaryColumns.forEach(column => {
+            id[column.propertyKey] = (entity as any)[column.propertyKey];
+        });
+        return id as Partial<T>;
+    }
+
+    /**
+     * Converts an id into the list of key values, ordered like `getPrimaryColumns()`.
+     * Composite keys must be given as an object containing every key property.
+     */
+    protected getPrimaryKeyValues(id: EntityId<T>): any[] {
+        const primaryColumns = this.getPrimaryColumns();
+        const columns = this.getColumnsByProperty();
+
+        if (id === null || typeof id !== 'object') {
+            if (primaryColumns.length > 1) {
+                throw new OrmError(`Entity ${this.entity?.name} has a composite primary key; pass an object with ${primaryColumns.map(col => col.propertyKey).join(', ')}`);
+            }
+            return [this.toDatabaseValue(primaryColumns[0].propertyKey, id, columns)];
+        }
+
+        return primaryColumns.map(column => {
+            const value = (id as any)[column.propertyKey];
+            if (value === undefined) {
+                throw new OrmError(`Missing primary key property "${column.propertyKey}" for table ${this.tableName}`);
+            }
+            return this.toDatabaseValue(column.propertyKey, value, columns);
+        });
+    }
+
+    protected buildPrimaryKeyCondition(id: EntityId<T>, startIndex: number = 1): {
+        whereClause: string;
+        values: any[];
+    } {
+        const values = this.getPrimaryKeyValues(id);
+        const conditions = this.getPrimaryColumns()
+            .map((column, index) => `${quoteIdentifier(column.name)} = $${startIndex + index}`);
+
+        return {
+            whereClause: `WHERE ${conditions.join(' AND ')}`,
+            values
+        };
+    }
+
+    /**
+     * Maps a property name to its column. For entity backed repositories only properties
+     * registered with `@Column` are accepted, so caller supplied keys never reach the SQL text.
+     */
+    protected toColumnName(propertyKey: string): string {
+        if (!this.entity) {
+            return propertyKey;
+        }
+
+        const column = this.getColumnMetadata().find(col => col.propertyKey === propertyKey);
+        if (!column) {
+            throw new UnknownColumnError(propertyKey, this.qualifiedTableName);
+        }
+        return column.name;
+    }
+
+    protected quoteColumn(propertyKey: string): string {
+        return quoteIdentifier(this.toColumnName(propertyKey));
+    }
+
+    /**
+     * Hydrates a result row: column names become property names, values are coerced by
+     * column type and the result is an instance of the entity class. With `raw` only the
+     * names are mapped. Columns without metadata, such as computed aliases, are kept as they are.
+     */
+    protected mapRow(row: QueryResultRow, options: ReadOptions = {}): T {
+        return this.mapRows([row], options)[0];
+    }
+
+    protected mapRows(rows: QueryResultRow[], options: ReadOptions = {}): T[] {
+        const hydrate = createHydrator<T>(this.getColumnMetadata(), {
+            prototype: options.raw ? undefined : this.entity?.prototype,
+            coerce: !options.raw
+        });
+        return rows.map(hydrate);
+    }
+
+    /**
+     * Loads the relations named in `options.relations`, plus eager ones, onto entities read
+     * by this repository. Each relation costs one query per level, whatever the entity count.
+     */
+    protected async loadRelations(entities: T[], options: ReadOptions = {}): Promise<T[]> {
+        if (!this.entity || entities.length === 0) return entities;
+
+        const paths = resolveRelationPaths(this.entity, options.relations);
+        await loadRelations(this.entity, entities, paths, { execute: (query, params) => this.executeQuery(query, params) }, options);
+        return entities;
+    }
+
+    /** Completes a read: loads relations, then runs `afterLoad` hooks and subscribers unless reading `raw`. */
+    protected async finishLoad(entities: T[], options: ReadOptions = {}): Promise<T[]> {
+        await this.loadRelations(entities, options);
+        if (!options.raw) {
+            for (const entity of entities) {
+                await this.dispatchEvent('afterLoad', entity);
+            }
+        }
+        return entities;
+    }
+
+    /**
+     * Checks the values of a write, keyed by column property paths, against the entity's
+     * validation rules and throws one `ValidationError` listing every failure. `partial`
+     * only checks the properties that are set, for updates. Failures report their row's
+     * position when several rows are checked, counted from `firstIndex` when it is given.
+     */
+    protected async validate(rows: Partial<T>[], partial: boolean = false, firstIndex?: number): Promise<void> {
+        if (!this.entity) return;
+        const columns = this.getColumnMetadata().filter(column => column.validators);
+        if (columns.length === 0) return;
+
+        const failures: ValidationFailure[] = [];
+        for (const [index, row] of rows.entries()) {
+            const position = firstIndex !== undefined ? firstIndex + index : rows.length > 1 ? index : undefined;
+            failures.push(...await validateValues(columns, row, { partial, index: position }));
+        }
+        if (failures.length > 0) {
+            throw new ValidationError(this.entity.name, failures);
+        }
+    }
+
+    protected async dispatchEvent(kind: EntityEventKind, entity: any, id?: EntityId<T>): Promise<void> {
+        if (!this.entity) return;
+        await dispatchEntityEvent(kind, { target: this.entity, entity, id: id as EntityId, transactionManager: this.transactionManager });
+    }
+
+    protected getHistoryTable(): TableMetadata {
+        if (!this.entity || !isAudited(this.entity)) {
+            throw new OrmError(`${this.entity?.name ?? this.qualifiedTableName} is not @Audited`);
+        }
+        return getHistoryTableMetadata(this.entity, { name: this.tableName, schema: this.schemaName });
+    }
+
+    /**
+     * Hands the actor to the history trigger of an `@Audited` entity. The setting is local
+     * to the transaction, so pooled connections never carry it into another one.
+     */
+    protected async setHistoryActor(): Promise<void> {
+        if (!this.entity || !isAudited(this.entity)) return;
+        const actor = resolveActor(this.transactionManager);
+        await this.executeQuery('SELECT set_config($1, $2, true)', [ACTOR_SETTING, actor === null ? '' : String(actor)]);
+    }
+
+    /**
+     * Runs a write in a savepoint when hooks or subscribers listen for any of `kinds`, so one
+     * that throws undoes the write's statements without aborting the surrounding transaction.
+     * The history actor is set first, as every repository write passes through here.
+     */
+    protected async withEntityEvents<R>(kinds: EntityEventKind[], work: () => Promise<R>): Promise<R> {
+        await this.setHistoryActor();
+        if (!this.entity || !hasEntityListeners(this.entity, kinds)) return work();
+
+        const savepoint = quoteIdentifier(`peculiar_write_${++savepointCounter}`);
+        await this.executeQuery(`SAVEPOINT ${savepoint}`);
+        try {
+            const result = await work();
+            await this.executeQuery(`RELEASE SAVEPOINT ${savepoint}`);
+            return result;
+        } catch (error) {
+            try {
+                await this.executeQuery(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+            } catch (rollbackError) {
+                Logger.error(rollbackError as Error, { message: 'Rollback to savepoint failed after a write error.' });
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Separates relation properties from column values and flattens `@Embedded` objects into
+     * their columns' property paths. A many-to-one relation fills its join column from the
+     * related entity's key unless the join column is set as well; collections are returned
+     * to be saved once the owning row exists.
+     */
+    protected splitRelations(entity: Partial<T>): {
+        values: Partial<T>;
+        collections: Array<{ relation: RelationMetadata; items: any[] }>;
+    } {
+        if (!this.entity) return { values: entity, collections: [] };
+
+        const relations = getRelationMetadata(this.entity);
+        const values: Record<string, any> = flattenEmbedded(this.entity, { ...entity });
+        const collections: Array<{ relation: RelationMetadata; items: any[] }> = [];
+
+        for (const relation of relations) {
+            const value = values[relation.propertyKey];
+            delete values[relation.propertyKey];
+            if (value === undefined) continue;
+
+            if (relation.kind !== 'many-to-one') {
+                if (!Array.isArray(value)) {
+                    throw new OrmError(`${this.entity!.name}.${relation.propertyKey} must be an array`);
+                }
+                collections.push({ relation, items: value });
+                continue;
+            }
+
+            if (values[relation.joinColumn!] !== undefined) continue;
+            if (value === null) {
+                values[relation.joinColumn!] = null;
+                continue;
+            }
+
+            const [referenced] = getPrimaryColumns(relation.target);
+            const key = value[referenced.propertyKey];
+            if (key === undefined || key === null) {
+                throw new OrmError(`${this.entity!.name}.${relation.propertyKey} references a ${relation.target.name} that has not been saved`);
+            }
+            values[relation.joinColumn!] = key;
+        }
+
+        return { values: values as Partial<T>, collections };
     }
 
-    protected async executeQuery<R extends QueryResultRow = any>(query: string, params: any[] = []): Promise<QueryResult<R>> {
+    protected async executeQuery<R extends QueryResultRow = any>(
+        query: string,
+        params: any[] = [],
+        options?: { queryTimeoutMs?: number }
+    ): Promise<QueryResult<R>> {
         const startTime = Date.now();
         try {
             const client = this.transactionManager.getClient();
-            const result = await client.query<R>(query, params);
+            const result = options?.queryTimeoutMs !== undefined
+                ? await client.query<R>({ text: query, values: params, queryTimeoutMs: options.queryTimeoutMs } as TimedQueryConfig)
+                : await client.query<R>(query, params);
 
             Logger.write('Query executed successfully', LogLevel.INFO, {
                 operation: 'query',
@@ -45,22 +422,27 @@ export abstract class BaseRepository<T> implements IRepository<T> {
                 errorCode: error.code,
             });
 
-            switch (error.code) {
-                case '23505':
-                    throw new DatabaseConstraintError('Unique constraint violation', error.constraint);
-                case '23503':
-                    throw new DatabaseConstraintError('Foreign key constraint violation', error.constraint);
-                case '23502':
-                    throw new DatabaseConstraintError('Not null constraint violation', error.constraint);
-                case '42P01':
-                case '42703':
-                    throw new DatabaseQueryError('Invalid query structure', query, params);
-                case '08006':
-                case '08001':
-                    throw new DatabaseConnectionError(error.message, { cause: error.code });
-                default:
-                    throw new OrmError(`An unexpected database error occurred: ${error.message}`);
-            }
+            throw this.translateError(error, query, params);
+        }
+    }
+
+    /** Maps a driver error onto the ORM's error classes by SQLSTATE. */
+    protected translateError(error: any, query: string, params: any[]): Error {
+        switch (error.code) {
+            case '23505':
+                return new DatabaseConstraintError('Unique constraint violation', error.constraint);
+            case '23503':
+                return new DatabaseConstraintError('Foreign key constraint violation', error.constraint);
+            case '23502':
+                return new DatabaseConstraintError('Not null constraint violation', error.constraint);
+            case '42P01':
+            case '42703':
+                return new DatabaseQueryError('Invalid query structure', query, params);
+            case '08006':
+            case '08001':
+                return new DatabaseConnectionError(error.message, { cause: error.code });
+            default:
+                return new OrmError(`An unexpected database error occurred: ${error.message}`);
         }
     }
 
@@ -72,12 +454,13 @@ export abstract class BaseRepository<T> implements IRepository<T> {
         const columns: string[] = [];
         const values: any[] = [];
         const placeholders: string[] = [];
+        const columnsByProperty = this.getColumnsByProperty();
         let parameterIndex = 1;
 
         for (const [key, value] of Object.entries(entity)) {
             if (value === undefined) continue;
-            columns.push(key);
-            values.push(value);
+            columns.push(this.quoteColumn(key));
+            values.push(this.toDatabaseValue(key, value, columnsByProperty));
             placeholders.push(`$${parameterIndex}`);
             parameterIndex++;
         }
@@ -85,25 +468,142 @@ export abstract class BaseRepository<T> implements IRepository<T> {
         return { columns, values, placeholders };
     }
 
-    protected buildWhereClause(predicate: Partial<T>): {
+    /**
+     * Builds a `WHERE` clause from a `Where<T>` filter. Plain values compare with `=`
+     * (`null` with `IS NULL`); operator objects such as `{ $in: [...] }` are expanded.
+     * Pass `scope` for reads, which then skip soft-deleted rows unless it says otherwise.
+     */
+    protected buildWhereClause(predicate: Where<T>, startIndex: number = 1, scope?: SoftDeleteOptions): {
         whereClause: string;
         values: any[]
     } {
-        const conditions: string[] = [];
-        const values: any[] = [];
-        let parameterIndex = 1;
-
-        for (const [key, value] of Object.entries(predicate)) {
-            conditions.push(`${key} = $${parameterIndex}`);
-            values.push(value);
-            parameterIndex++;
-        }
+        const params = new QueryParameters(startIndex - 1);
+        const conditions = [
+            compileWhere(predicate, this.createWhereContext(params)),
+            scope ? this.buildSoftDeleteCondition(scope) : ''
+        ].filter(condition => condition.length > 0);
 
         return {
             whereClause: conditions.length > 0
-                ? `WHERE ${conditions.join(' AND ')}`
+                ? `WHERE ${conditions.length > 1 ? conditions.map(condition => `(${condition})`).join(' AND ') : conditions[0]}`
                 : '',
-            values
+            values: params.getValues()
+        };
+    }
+
+    /** The condition hiding soft-deleted rows, or an empty string when there is none to apply. */
+    protected buildSoftDeleteCondition(scope: SoftDeleteOptions = {}, qualifier?: string): string {
+        return this.entity ? renderSoftDeleteCondition(this.entity, scope, qualifier) : '';
+    }
+
+    /** The entity's `@VersionColumn`, if it has one. */
+    protected getVersionColumn(): ColumnMetadata | undefined {
+        return this.entity ? getColumnByRole(this.entity, 'version') : undefined;
+    }
+
+    /**
+     * Splits the version a caller read off `values`, for entities with a `@VersionColumn`.
+     * The remaining values never assign the version themselves.
+     */
+    protected takeExpectedVersion(values: Record<string, any>): { values: Record<string, any>; expectedVersion?: number } {
+        const version = this.getVersionColumn();
+        if (!version || values === null || typeof values !== 'object' || !(version.propertyKey in values)) {
+            return { values };
+        }
+
+        const { [version.propertyKey]: expectedVersion, ...rest } = values;
+        return { values: rest, expectedVersion: expectedVersion ?? undefined };
+    }
+
+    /**
+     * Assignments every repository `UPDATE` adds, starting with `, ` to follow a `SET` list:
+     * the incremented `@VersionColumn`, the current time for `@UpdateDateColumn` and, given
+     * `params`, the current actor for `@UpdatedBy`. `qualifier` is the updated table's alias.
+     */
+    protected buildManagedAssignments(params?: QueryParameters, qualifier?: string): string {
+        if (!this.entity) return '';
+
+        const assignments: string[] = [];
+        const version = this.getVersionColumn();
+        if (version) {
+            const column = quoteIdentifier(version.name);
+            assignments.push(`${column} = ${qualifier ? `${qualifier}.` : ''}${column} + 1`);
+        }
+        const updateDate = getColumnByRole(this.entity, 'updateDate');
+        if (updateDate) {
+            assignments.push(`${quoteIdentifier(updateDate.name)} = CURRENT_TIMESTAMP`);
+        }
+        const updatedBy = getColumnByRole(this.entity, 'updatedBy');
+        if (updatedBy && params) {
+            const actor = this.toDatabaseValue(updatedBy.propertyKey, resolveActor(this.transactionManager));
+            assignments.push(`${quoteIdentifier(updatedBy.name)} = ${params.add(actor)}`);
+        }
+        return assignments.map(assignment => `, ${assignment}`).join('');
+    }
+
+    /** Fills `@CreatedBy` and `@UpdatedBy` with the current actor where the inserted values leave them unset. */
+    protected fillActorColumns(values: Partial<T>): Partial<T> {
+        if (!this.entity) return values;
+
+        const filled: Record<string, any> = { ...values };
+        for (const role of ['createdBy', 'updatedBy'] as ColumnRole[]) {
+            const column = getColumnByRole(this.entity, role);
+            if (column && filled[column.propertyKey] === undefined) {
+                filled[column.propertyKey] = resolveActor(this.transactionManager);
+            }
+        }
+        return filled as Partial<T>;
+    }
+
+    /**
+     * `@CreateDateColumn` and `@UpdateDateColumn` properties missing from `propertyKeys`.
+     * Inserts set them to `CURRENT_TIMESTAMP`, as `buildManagedAssignments` does on updates,
+     * so they do not depend on the table declaring a default.
+     */
+    protected getUnsetAuditDateProperties(propertyKeys: string[]): string[] {
+        const entity = this.entity;
+        if (!entity) return [];
+        return (['createDate', 'updateDate'] as ColumnRole[])
+            .map(role => getColumnByRole(entity, role)?.propertyKey)
+            .filter((propertyKey): propertyKey is string => propertyKey !== undefined && !propertyKeys.includes(propertyKey));
+    }
+
+    /** Properties of the entity's `@CreateDateColumn`, `@UpdateDateColumn`, `@CreatedBy` and `@UpdatedBy`. */
+    protected getAuditProperties(): string[] {
+        const entity = this.entity;
+        if (!entity) return [];
+        return AUDIT_ROLES
+            .map(role => getColumnByRole(entity, role)?.propertyKey)
+            .filter((propertyKey): propertyKey is string => propertyKey !== undefined);
+    }
+
+    /**
+     * Drops update values for audit columns: `@CreateDateColumn` and `@CreatedBy` never change,
+     * and `buildManagedAssignments` sets `@UpdateDateColumn` and `@UpdatedBy`.
+     */
+    protected omitAuditColumns(values: Partial<T>): Partial<T> {
+        const kept: Record<string, any> = { ...values };
+        for (const propertyKey of this.getAuditProperties()) {
+            delete kept[propertyKey];
+        }
+        return kept as Partial<T>;
+    }
+
+    /** ` AND version = $n` when an expected version is given, to append to a `WHERE` clause. */
+    protected buildVersionCondition(expectedVersion: number | undefined, params: QueryParameters): string {
+        const version = this.getVersionColumn();
+        if (!version || expectedVersion === undefined) return '';
+        return ` AND ${quoteIdentifier(version.name)} = ${params.add(expectedVersion)}`;
+    }
+
+    protected createWhereContext(params: QueryParameters): WhereContext {
+        const columns = this.getColumnsByProperty();
+        return {
+            resolveColumn: propertyKey => this.quoteColumn(propertyKey),
+            params,
+            transformValue: (propertyKey, value) => this.toDatabaseValue(propertyKey, value, columns),
+            isEmbedded: propertyKey => !!this.entity && isEmbeddedPath(this.entity, propertyKey),
+            embeddedProperties: propertyKey => this.entity ? getEmbeddedColumnPaths(this.entity, propertyKey) : []
         };
     }
 
@@ -113,12 +613,13 @@ export abstract class BaseRepository<T> implements IRepository<T> {
     } {
         const updates: string[] = [];
         const values: any[] = [];
+        const columns = this.getColumnsByProperty();
         let parameterIndex = 1;
 
         for (const [key, value] of Object.entries(entity)) {
-            if (key !== 'id' && key !== '_id' && value !== undefined) {
-                updates.push(`${key} = $${parameterIndex}`);
-                values.push(value);
+            if (!this.isPrimaryKeyProperty(key) && value !== undefined) {
+                updates.push(`${this.quoteColumn(key)} = $${parameterIndex}`);
+                values.push(this.toDatabaseValue(key, value, columns));
                 parameterIndex++;
             }
         }
@@ -129,41 +630,98 @@ export abstract class BaseRepository<T> implements IRepository<T> {
         };
     }
 
-    protected buildBulkInsertClause(entities: T[]): {
+    /** The union of the properties set on any of the entities, in first-seen order. */
+    protected collectPropertyKeys(entities: Partial<T>[]): string[] {
+        const propertyKeys = new Set<string>();
+        for (const entity of entities) {
+            for (const [key, value] of Object.entries(entity as object)) {
+                if (value !== undefined) propertyKeys.add(key);
+            }
+        }
+        return [...propertyKeys];
+    }
+
+    /**
+     * Builds the `VALUES` list for a multi-row insert over the union of the entities'
+     * properties. Properties an entity leaves unset are inserted as `DEFAULT`, except audit
+     * dates, which are inserted as `CURRENT_TIMESTAMP`.
+     */
+    protected buildBulkInsertClause(entities: Partial<T>[], startIndex: number = 1): {
         valuesClause: string;
         values: any[];
         columns: string[];
     } {
-        if (entities.length === 0) {
-            return { valuesClause: '', values: [], columns: [] };
-        }
+        const setKeys = this.collectPropertyKeys(entities);
+        const auditDates = this.getUnsetAuditDateProperties([]);
+        const propertyKeys = [...setKeys, ...this.getUnsetAuditDateProperties(setKeys)];
+        const columns = this.getColumnsByProperty();
+        const params = new QueryParameters(startIndex - 1);
 
-        const firstEntity = entities[0];
-        const { columns } = this.getEntityColumns(firstEntity);
-        const values: any[] = [];
-        const valueSets: string[] = [];
-
-        entities.forEach((entity, entityIndex) => {
-            const entityValues: any[] = [];
-            columns.forEach(column => {
-                const value = (entity as any)[column];
-                entityValues.push(value);
-                values.push(value);
+        const valueSets = entities.map(entity => {
+            const placeholders = propertyKeys.map(key => {
+                const value = (entity as any)[key];
+                if (value === undefined) return auditDates.includes(key) ? 'CURRENT_TIMESTAMP' : 'DEFAULT';
+                return params.add(this.toDatabaseValue(key, value, columns));
             });
-
-            const placeholders = entityValues
-                .map((_, i) => `$${entityIndex * columns.length + i + 1}`)
-                .join(', ');
-            valueSets.push(`(${placeholders})`);
+            return `(${placeholders.join(', ')})`;
         });
 
         return {
             valuesClause: valueSets.join(', '),
-            values,
-            columns
+            values: params.getValues(),
+            columns: propertyKeys.map(key => this.quoteColumn(key))
         };
     }
 
+    /**
+     * Builds an `INSERT ... SELECT` of `propertyKeys` reading the rows from a `VALUES` list
+     * ordered by their input position, so generated keys are assigned and rows returned in
+     * input order. Values are cast to the declared column types, since nothing else types
+     * the parameters of a `VALUES` list inside a `SELECT`. Unset audit dates are selected
+     * as `CURRENT_TIMESTAMP`.
+     */
+    protected buildBulkInsertFromValues(
+        rows: Array<{ index: number; entity: Partial<T> }>,
+        propertyKeys: string[]
+    ): { query: string; values: any[] } {
+        const columns = this.getColumnsByProperty();
+        const types = propertyKeys.map(key => this.getCastType(key, columns));
+        const params = new QueryParameters();
+
+        const valueSets = rows.map(({ index, entity }) => {
+            const placeholders = [
+                ...propertyKeys.map((key, i) => `${params.add(this.toDatabaseValue(key, (entity as any)[key], columns))}::${types[i]}`),
+                `${params.add(index)}::integer`
+            ];
+            return `(${placeholders.join(', ')})`;
+        });
+
+        const source = quoteIdentifier('source');
+        const ordinal = quoteIdentifier(BULK_ORDINAL_COLUMN);
+        const targetColumns = propertyKeys.map(key => this.quoteColumn(key));
+        const auditDates = this.getUnsetAuditDateProperties(propertyKeys).map(key => this.quoteColumn(key));
+        const selected = [...targetColumns.map(column => `${source}.${column}`), ...auditDates.map(() => 'CURRENT_TIMESTAMP')];
+        const query = `
+            INSERT INTO ${this.qualifiedTableName} (${[...targetColumns, ...auditDates].join(', ')})
+            SELECT ${selected.join(', ')}
+            FROM (VALUES ${valueSets.join(', ')}) AS ${source} (${[...targetColumns, ordinal].join(', ')})
+            ORDER BY ${source}.${ordinal}
+            RETURNING *
+        `;
+
+        return { query, values: params.getValues() };
+    }
+
+    private getCastType(propertyKey: string, columns: Map<string, ColumnMetadata>): string {
+        const column = columns.get(propertyKey);
+        if (!column) throw new UnknownColumnError(propertyKey, this.qualifiedTableName);
+        return renderCastType(column);
+    }
+
+    /**
+     * @deprecated Renders one `CASE` branch per row and column. Entity repositories use
+     * `buildBulkUpdateFromValues`; this remains for repositories without column metadata.
+     */
     protected buildBulkUpdateClause(entities: Partial<T>[]): {
         updateClause: string;
         values: any[];
@@ -172,23 +730,30 @@ export abstract class BaseRepository<T> implements IRepository<T> {
         const cases: string[] = [];
         let parameterIndex = 1;
 
+        const primaryColumns = this.getPrimaryColumns();
+        const columns = this.getColumnsByProperty();
         const updateFields = Object.keys(entities[0])
-            .filter(key => key !== 'id' && key !== '_id');
+            .filter(key => !this.isPrimaryKeyProperty(key));
 
         updateFields.forEach(field => {
             const caseStatements: string[] = [];
 
             entities.forEach(entity => {
-                const id = (entity as any)._id || (entity as any).id;
+                const id = this.getEntityId(entity);
                 if (id !== undefined && (entity as any)[field] !== undefined) {
-                    caseStatements.push(`WHEN _id = $${parameterIndex} THEN $${parameterIndex + 1}`);
-                    values.push(id, (entity as any)[field]);
-                    parameterIndex += 2;
+                    const keyValues = this.getPrimaryKeyValues(id);
+                    const keyCondition = primaryColumns
+                        .map((column, index) => `${quoteIdentifier(column.name)} = $${parameterIndex + index}`)
+                        .join(' AND ');
+                    caseStatements.push(`WHEN ${keyCondition} THEN $${parameterIndex + keyValues.length}`);
+                    values.push(...keyValues, this.toDatabaseValue(field, (entity as any)[field], columns));
+                    parameterIndex += keyValues.length + 1;
                 }
             });
 
             if (caseStatements.length > 0) {
-                cases.push(`${field} = (CASE ${caseStatements.join(' ')} ELSE ${field} END)`);
+                const column = this.quoteColumn(field);
+                cases.push(`${column} = (CASE ${caseStatements.join(' ')} ELSE ${column} END)`);
             }
         });
 
@@ -198,29 +763,645 @@ export abstract class BaseRepository<T> implements IRepository<T> {
         };
     }
 
-    protected buildWhereInClause(ids: string[], startIndex: number = 1): {
+    /**
+     * Builds an `UPDATE ... FROM (VALUES ...)` setting `updateKeys` for each row, joined on
+     * the primary key. Values are cast to the declared column types, and every returned row
+     * carries its input position in `BULK_ORDINAL_COLUMN`.
+     */
+    protected buildBulkUpdateFromValues(
+        rows: Array<{ index: number; entity: Partial<T> }>,
+        updateKeys: string[]
+    ): { query: string; values: any[] } {
+        const columns = this.getColumnsByProperty();
+        const castType = (propertyKey: string) => this.getCastType(propertyKey, columns);
+
+        const primaryColumns = this.getPrimaryColumns();
+        const keyTypes = primaryColumns.map(column => castType(column.propertyKey));
+        const updateTypes = updateKeys.map(castType);
+        const params = new QueryParameters();
+
+        const valueSets = rows.map(({ index, entity }) => {
+            const keyValues = this.getPrimaryKeyValues(this.getEntityId(entity));
+            const placeholders = [
+                `${params.add(index)}::integer`,
+                ...keyValues.map((value, i) => `${params.add(value)}::${keyTypes[i]}`),
+                ...updateKeys.map((key, i) => `${params.add(this.toDatabaseValue(key, (entity as any)[key], columns))}::${updateTypes[i]}`)
+            ];
+            return `(${placeholders.join(', ')})`;
+        });
+
+        const target = quoteIdentifier('target');
+        const source = quoteIdentifier('source');
+        const ordinal = quoteIdentifier(BULK_ORDINAL_COLUMN);
+        const sourceColumns = [
+            ordinal,
+            ...primaryColumns.map(column => quoteIdentifier(column.name)),
+            ...updateKeys.map(key => this.quoteColumn(key))
+        ];
+        // A version among the update keys is the expected version rather than a new value.
+        const version = this.getVersionColumn();
+        const assignments = updateKeys.filter(key => key !== version?.propertyKey).map(key => {
+            const column = this.quoteColumn(key);
+            return `${column} = ${source}.${column}`;
+        });
+        const joinCondition = primaryColumns.map(column => {
+            const name = quoteIdentifier(column.name);
+            return `${target}.${name} = ${source}.${name}`;
+        });
+        if (version && updateKeys.includes(version.propertyKey)) {
+            const column = quoteIdentifier(version.name);
+            joinCondition.push(`${target}.${column} = ${source}.${column}`);
+        }
+
+        const query = `
+            UPDATE ${this.qualifiedTableName} AS ${target}
+            SET ${assignments.join(', ')}${this.buildManagedAssignments(params, target)}
+            FROM (VALUES ${valueSets.join(', ')}) AS ${source} (${sourceColumns.join(', ')})
+            WHERE ${joinCondition.join(' AND ')}
+            RETURNING ${target}.*, ${source}.${ordinal}
+        `;
+
+        return { query, values: params.getValues() };
+    }
+
+    protected buildWhereInClause(ids: EntityId<T>[], startIndex: number = 1): {
         whereClause: string;
         values: any[];
     } {
-        const placeholders = ids.map((_, index) => `$${startIndex + index}`).join(', ');
+        const primaryColumns = this.getPrimaryColumns();
+        const values: any[] = [];
+        const tuples = ids.map(id => {
+            const keyValues = this.getPrimaryKeyValues(id);
+            const placeholders = keyValues.map((_, index) => `$${startIndex + values.length + index}`);
+            values.push(...keyValues);
+            return primaryColumns.length > 1 ? `(${placeholders.join(', ')})` : placeholders[0];
+        });
+
+        const target = primaryColumns.length > 1
+            ? `(${primaryColumns.map(column => quoteIdentifier(column.name)).join(', ')})`
+            : quoteIdentifier(primaryColumns[0].name);
+
         return {
-            whereClause: `WHERE _id IN (${placeholders})`,
-            values: ids
+            whereClause: `WHERE ${target} IN (${tuples.join(', ')})`,
+            values
+        };
+    }
+
+    /**
+     * Starts a `SELECT` on this repository's table. Queries run through `executeQuery`
+     * and results are mapped with `mapRows`.
+     */
+    createQueryBuilder(alias: string = this.tableName): SelectQueryBuilder<T> {
+        return new SelectQueryBuilder<T>({
+            tableName: this.qualifiedTableName,
+            toColumnName: propertyKey => this.toColumnName(propertyKey),
+            toDatabaseValue: (propertyKey, value) => this.toDatabaseValue(propertyKey, value),
+            isEmbedded: propertyKey => !!this.entity && isEmbeddedPath(this.entity, propertyKey),
+            embeddedProperties: propertyKey => this.entity ? getEmbeddedColumnPaths(this.entity, propertyKey) : [],
+            softDeleteCondition: (qualifier, scope) => this.buildSoftDeleteCondition(scope, qualifier),
+            execute: (query, params) => this.executeQuery(query, params),
+            mapRows: (rows, options) => this.mapRows(rows, options),
+            finishLoad: (entities, options) => this.finishLoad(entities, options)
+        }, alias);
+    }
+
+    /**
+     * Expands an `OrderBy<T>` into ordered entries and appends the primary key columns
+     * that are not already part of it, so every ordering is total and stable.
+     */
+    protected resolveOrdering(orderBy: OrderBy<T> = {}): Array<{ propertyKey: string; direction: SortDirection }> {
+        const ordering = Object.entries(orderBy as Record<string, SortDirection | undefined>)
+            .filter(([, direction]) => direction !== undefined)
+            .map(([propertyKey, direction]) => ({
+                propertyKey,
+                direction: (direction === 'DESC' ? 'DESC' : 'ASC') as SortDirection
+            }));
+
+        for (const column of this.getPrimaryColumns()) {
+            if (!ordering.some(order => order.propertyKey === column.propertyKey)) {
+                ordering.push({ propertyKey: column.propertyKey, direction: 'ASC' });
+            }
+        }
+        return ordering;
+    }
+
+    protected buildOrderByClause(ordering: Array<{ propertyKey: string; direction: SortDirection }>): string {
+        if (ordering.length === 0) return '';
+        return `ORDER BY ${ordering.map(order => `${this.quoteColumn(order.propertyKey)} ${order.direction}`).join(', ')}`;
+    }
+
+    /**
+     * Builds the keyset predicate selecting rows strictly after `values`, the text form of the
+     * last row's ordering columns, in the given ordering. Values are cast back to the column
+     * types, so timestamps keep their microseconds. Mixed directions are expanded into
+     * `(a > $1) OR (a = $1 AND b < $2) ...`, and NULLs sort like Postgres sorts them:
+     * after every value ascending and before every value descending.
+     */
+    protected buildKeysetCondition(
+        ordering: Array<{ propertyKey: string; direction: SortDirection }>,
+        values: Array<string | null>,
+        params: QueryParameters
+    ): string {
+        const columns = this.getColumnsByProperty();
+        const bind = (propertyKey: string, value: string) => {
+            const column = columns.get(propertyKey);
+            return column ? `${params.add(value)}::${renderCastType(column)}` : params.add(value);
+        };
+
+        const branches: string[] = [];
+        ordering.forEach((order, index) => {
+            const column = this.quoteColumn(order.propertyKey);
+            const value = values[index];
+            // Nothing sorts after a NULL ascending.
+            if (value === null && order.direction === 'ASC') return;
+
+            const equalities = ordering.slice(0, index).map((previous, previousIndex) => {
+                const previousValue = values[previousIndex];
+                return previousValue === null
+                    ? `${this.quoteColumn(previous.propertyKey)} IS NULL`
+                    : `${this.quoteColumn(previous.propertyKey)} = ${bind(previous.propertyKey, previousValue)}`;
+            });
+
+            let comparison: string;
+            if (value === null) {
+                comparison = `${column} IS NOT NULL`;
+            } else {
+                comparison = `${column} ${order.direction === 'DESC' ? '<' : '>'} ${bind(order.propertyKey, value)}`;
+                const nullable = columns.get(order.propertyKey)?.nullable ?? true;
+                if (order.direction === 'ASC' && nullable) comparison = `(${comparison} OR ${column} IS NULL)`;
+            }
+            branches.push(`(${[...equalities, comparison].join(' AND ')})`);
+        });
+        return branches.length > 0 ? branches.join(' OR ') : 'FALSE';
+    }
+
+    /**
+     * Offset pagination. Returns the requested page together with the total number of
+     * matching rows; ties in `orderBy` are broken by the primary key.
+     */
+    async findPage(options: PageOptions<T> = {}): Promise<Page<T>> {
+        const page = options.page ?? 1;
+        const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+        if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1) {
+            throw new OrmError('page and pageSize must be positive integers');
+        }
+
+        const { whereClause, values } = this.buildWhereClause(options.where || {}, 1, options);
+        const orderByClause = this.buildOrderByClause(this.resolveOrdering(options.orderBy));
+
+        const countResult = await this.executeQuery<{ count: string }>(
+            `SELECT COUNT(*) AS count FROM ${this.qualifiedTableName} ${whereClause}`,
+            values
+        );
+
+        const query = `
+            SELECT * FROM ${this.qualifiedTableName}
+            ${whereClause}
+            ${orderByClause}
+            LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+        `;
+        const result = await this.executeQuery(query, [...values, pageSize, (page - 1) * pageSize]);
+
+        return {
+            items: await this.finishLoad(this.mapRows(result.rows, options), options),
+            total: parseInt(countResult.rows[0].count, 10),
+            page,
+            pageSize
+        };
+    }
+
+    /**
+     * Keyset pagination. Pass the returned `nextCursor` as `after` to continue; cursors are
+     * bound to the ordering they were created with.
+     */
+    async findCursor(options: CursorOptions<T> = {}): Promise<CursorPage<T>> {
+        const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw new OrmError('limit must be a positive integer');
+        }
+
+        const ordering = this.resolveOrdering(options.orderBy);
+        const signature = ordering.map(order => `${order.propertyKey}:${order.direction}`);
+        const params = new QueryParameters();
+        const conditions: string[] = [];
+
+        const filter = compileWhere(options.where || {}, this.createWhereContext(params));
+        if (filter) conditions.push(`(${filter})`);
+
+        const softDelete = this.buildSoftDeleteCondition(options);
+        if (softDelete) conditions.push(softDelete);
+
+        if (options.after) {
+            const cursorValues = decodeCursor(options.after, signature);
+            conditions.push(`(${this.buildKeysetCondition(ordering, cursorValues, params)})`);
+        }
+
+        // The cursor keeps the ordering values as Postgres prints them, since parsed values
+        // can lose precision, such as the microseconds of a timestamp.
+        const cursorColumns = ordering.map((order, index) => ({
+            alias: `${CURSOR_COLUMN_PREFIX}${index}`,
+            select: `${this.quoteColumn(order.propertyKey)}::text AS ${quoteIdentifier(`${CURSOR_COLUMN_PREFIX}${index}`)}`
+        }));
+        const query = `
+            SELECT *, ${cursorColumns.map(column => column.select).join(', ')} FROM ${this.qualifiedTableName}
+            ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+            ${this.buildOrderByClause(ordering)}
+            LIMIT ${params.add(limit + 1)}
+        `;
+        const result = await this.executeQuery(query, params.getValues());
+
+        const hasMore = result.rows.length > limit;
+        const rows = result.rows.slice(0, limit);
+        const last = rows[rows.length - 1];
+        const entityRows = rows.map(row => {
+            const entityRow = { ...row };
+            for (const { alias } of cursorColumns) delete entityRow[alias];
+            return entityRow;
+        });
+
+        return {
+            items: await this.finishLoad(this.mapRows(entityRows, options), options),
+            nextCursor: hasMore && last
+                ? encodeCursor(signature, cursorColumns.map(({ alias }) => last[alias]))
+                : null,
+            hasMore
+        };
+    }
+
+    /**
+     * Reads a query through a server-side cursor (`DECLARE` / `FETCH`) on the active
+     * transaction's client, yielding batches of raw rows. The next batch is only fetched
+     * once the consumer asks for it, and the cursor is closed when iteration ends early.
+     */
+    protected async *fetchInBatches<R extends QueryResultRow = any>(
+        query: string,
+        params: any[] = [],
+        options: StreamOptions = {}
+    ): AsyncGenerator<R[]> {
+        const batchSize = options.batchSize ?? DEFAULT_STREAM_BATCH_SIZE;
+        if (!Number.isInteger(batchSize) || batchSize < 1) {
+            throw new OrmError('batchSize must be a positive integer');
+        }
+
+        const cursorName = quoteIdentifier(`peculiar_cursor_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`);
+        const fetchOptions = options.fetchTimeoutMs !== undefined ? { queryTimeoutMs: options.fetchTimeoutMs } : undefined;
+
+        await this.executeQuery(`DECLARE ${cursorName} NO SCROLL CURSOR FOR ${query}`, params);
+
+        try {
+            while (true) {
+                const result = await this.executeQuery<R>(`FETCH FORWARD ${batchSize} FROM ${cursorName}`, [], fetchOptions);
+                if (result.rows.length > 0) {
+                    yield result.rows;
+                }
+                if (result.rows.length < batchSize) {
+                    break;
+                }
+            }
+        } finally {
+            try {
+                await this.executeQuery(`CLOSE ${cursorName}`);
+            } catch (error: any) {
+                // An aborted transaction releases its cursors on rollback anyway.
+                Logger.write('Failed to close stream cursor', LogLevel.WARNING, {
+                    operation: 'stream',
+                    table: this.tableName,
+                    error: error.message,
+                    transactionId: this.transactionManager.getTransactionId()
+                });
+            }
+        }
+    }
+
+    /**
+     * Streams the rows of a raw query. Must run inside a transaction; each `FETCH` is a
+     * separate query, so the pool's query timeout applies per batch, not to the whole stream.
+     */
+    async *executeRawStream<R extends QueryResultRow = any>(
+        query: string,
+        params: any[] = [],
+        options: StreamOptions = {}
+    ): AsyncGenerator<R> {
+        for await (const rows of this.fetchInBatches<R>(query, params, options)) {
+            yield* rows;
+        }
+    }
+
+    /** Streams the entities matching `where`, hydrated the same way as `findByCondition`. */
+    async *stream(where: Where<T> = {}, options: StreamOptions & ReadOptions & { orderBy?: OrderBy<T> } = {}): AsyncGenerator<T> {
+        const { whereClause, values } = this.buildWhereClause(where, 1, options);
+        const orderByClause = options.orderBy ? this.buildOrderByClause(this.resolveOrdering(options.orderBy)) : '';
+        const query = `SELECT * FROM ${this.qualifiedTableName} ${whereClause} ${orderByClause}`;
+
+        for await (const rows of this.fetchInBatches(query, values, options)) {
+            yield* await this.finishLoad(this.mapRows(rows, options), options);
+        }
+    }
+
+    /**
+     * Inserts `entity`, or resolves a conflict on a unique key with `ON CONFLICT`. Returns
+     * the inserted or updated row, or `null` when an existing row was left untouched.
+     */
+    async upsert(entity: Partial<T>, options: UpsertOptions<T> = {}): Promise<T | null> {
+        const [row] = await this.bulkUpsert([entity], options);
+        return row ?? null;
+    }
+
+    /**
+     * Upserts many entities, split into statements that respect the bind parameter limit.
+     * Only inserted and updated rows are returned. Postgres rejects updating the same row
+     * twice, so entities sharing a conflict key are collapsed and the last one wins.
+     *
+     * Every entity is a proposed insert, so `beforeInsert` listeners see each of them. Whether
+     * a row was inserted or updated is only known afterwards: returned rows dispatch
+     * `afterInsert` or `afterUpdate` accordingly, and `beforeUpdate` never runs.
+     */
+    async bulkUpsert(entities: Partial<T>[], options: UpsertOptions<T> = {}): Promise<T[]> {
+        if (entities.length === 0) return [];
+
+        return this.withEntityEvents(['beforeInsert', 'afterInsert', 'afterUpdate'], async () => {
+            for (const entity of entities) {
+                await this.dispatchEvent('beforeInsert', entity);
+            }
+            const upserted = await this.upsertMany(entities, options);
+            for (const { entity, inserted } of upserted) {
+                if (inserted) {
+                    await this.dispatchEvent('afterInsert', entity);
+                } else {
+                    await this.dispatchEvent('afterUpdate', entity, this.getEntityId(entity));
+                }
+            }
+            return upserted.map(({ entity }) => entity);
+        });
+    }
+
+    private async upsertMany(entities: Partial<T>[], options: UpsertOptions<T>): Promise<Array<{ entity: T; inserted: boolean }>> {
+        entities = entities.map(entity => {
+            const { values, collections } = this.splitRelations(entity);
+            if (collections.length > 0) {
+                throw new OrmError(`Upserts do not save relation collections; save ${collections[0].relation.propertyKey} with create or update`);
+            }
+            return this.fillActorColumns(values);
+        });
+        await this.validate(entities);
+
+        const conflictTarget: string[] = options.conflictTarget ?? this.resolveConflictTarget(entities);
+        if (conflictTarget.length === 0) {
+            throw new OrmError('conflictTarget must name at least one property');
+        }
+        const conflictColumns = conflictTarget.map(key => this.quoteColumn(key));
+        const rows = options.doNothing ? entities : this.collapseByKey(entities, conflictTarget);
+
+        const propertyKeys = this.collectPropertyKeys(rows);
+        if (propertyKeys.length === 0) {
+            throw new OrmError(`Cannot upsert into ${this.qualifiedTableName} without any values`);
+        }
+
+        const auditProperties = this.getAuditProperties();
+        const version = this.getVersionColumn();
+        const updateKeys: string[] = (options.update
+            ?? propertyKeys.filter(key => !conflictTarget.includes(key) && !this.isPrimaryKeyProperty(key)))
+            .filter(key => key !== version?.propertyKey && !auditProperties.includes(key));
+        // Updated rows take the inserted `@UpdatedBy` actor; buildManagedAssignments sets the other managed columns.
+        const updatedBy = this.entity && getColumnByRole(this.entity, 'updatedBy');
+        if (updateKeys.length > 0 && updatedBy) {
+            updateKeys.push(updatedBy.propertyKey);
+        }
+        const conditionParameters = new QueryParameters();
+        this.buildUpsertCondition(options, conditionParameters);
+        const parameterLimit = MAX_QUERY_PARAMETERS - conditionParameters.getValues().length;
+        const upserted: Array<{ entity: T; inserted: boolean }> = [];
+
+        for (const chunk of chunkByParameterLimit(rows, propertyKeys.length, parameterLimit)) {
+            const { valuesClause, values, columns } = this.buildBulkInsertClause(chunk);
+            const params = new QueryParameters(values.length);
+
+            let action = 'DO NOTHING';
+            if (!options.doNothing && updateKeys.length > 0) {
+                const assignments = updateKeys.map(key => {
+                    const column = this.quoteColumn(key);
+                    return `${column} = EXCLUDED.${column}`;
+                });
+                action = `DO UPDATE SET ${assignments.join(', ')}${this.buildManagedAssignments(undefined, quoteIdentifier(this.tableName))}`;
+
+                const condition = this.buildUpsertCondition(options, params);
+                if (condition) action += ` WHERE ${condition}`;
+            }
+
+            const query = `
+                INSERT INTO ${this.qualifiedTableName} (${columns.join(', ')})
+                VALUES ${valuesClause}
+                ON CONFLICT (${conflictColumns.join(', ')}) ${action}
+                RETURNING *, (xmax = 0) AS ${quoteIdentifier(UPSERT_INSERTED_COLUMN)}
+            `;
+
+            // `xmax` is 0 for rows this statement inserted and set for rows it updated.
+            const result = await this.executeQuery(query, [...values, ...params.getValues()]);
+            for (const { [UPSERT_INSERTED_COLUMN]: inserted, ...row } of result.rows as QueryResultRow[]) {
+                upserted.push({ entity: this.mapRow(row), inserted: inserted === true });
+            }
+        }
+
+        return upserted;
+    }
+
+    /**
+     * Picks the first unique key, primary key first, whose properties are set on every
+     * entity; a key with missing values could never conflict.
+     */
+    protected resolveConflictTarget(entities: Partial<T>[]): string[] {
+        if (!this.entity) {
+            return this.getPrimaryColumns().map(column => column.propertyKey);
+        }
+
+        const target = getUniqueKeys(this.entity).find(key => entities.every(entity =>
+            key.every(propertyKey => (entity as any)[propertyKey] !== undefined && (entity as any)[propertyKey] !== null)
+        ));
+        if (!target) {
+            throw new OrmError(`Cannot infer a conflict target for ${this.qualifiedTableName}; set a unique key on every entity or pass conflictTarget`);
+        }
+        return target;
+    }
+
+    private collapseByKey(entities: Partial<T>[], keyProperties: string[]): Partial<T>[] {
+        const byKey = new Map<string, Partial<T>>();
+        entities.forEach((entity, index) => {
+            const keyValues = keyProperties.map(key => (entity as any)[key]);
+            // NULLs never conflict with each other, so such rows are kept apart.
+            const key = keyValues.some(value => value === undefined || value === null)
+                ? `#${index}`
+                : JSON.stringify(keyValues, (_, value) => typeof value === 'bigint' ? value.toString() : value);
+            byKey.delete(key);
+            byKey.set(key, entity);
+        });
+        return [...byKey.values()];
+    }
+
+    private buildUpsertCondition(options: UpsertOptions<T>, params: QueryParameters): string {
+        if (!options.where) return '';
+        if (typeof options.where === 'string') {
+            return bindNamedParameters(options.where, options.whereValues || {}, params);
+        }
+
+        const table = quoteIdentifier(this.tableName);
+        return compileWhere(options.where, {
+            ...this.createWhereContext(params),
+            resolveColumn: propertyKey => `${table}.${this.quoteColumn(propertyKey)}`
+        });
+    }
+
+    /**
+     * Bulk loads entities with `COPY ... FROM STDIN` on the active transaction's client, so
+     * the load commits or rolls back with the surrounding transaction. Values are serialized
+     * from column metadata; listed columns an entity leaves unset are loaded as NULL rather
+     * than their default, except audit columns, which are filled like any insert: dates
+     * with the transaction's `CURRENT_TIMESTAMP` and `@CreatedBy` and `@UpdatedBy` with the
+     * current actor. Resolves to the number of rows copied.
+     *
+     * Each entity is validated before it is sent. The first one failing its rules aborts the
+     * load with a `ValidationError` giving its position in `source`, and the transaction must
+     * then be rolled back. COPY returns no rows, so no entity hooks or subscribers run for
+     * copied entities; use `bulkCreate` when listeners must see them.
+     */
+    async copyFrom(source: Iterable<Partial<T>> | AsyncIterable<Partial<T>>, options: CopyOptions<T> = {}): Promise<number> {
+        const format = options.format ?? 'csv';
+        const columns = this.resolveCopyColumns(options.columns, true);
+        // COPY takes values only, so unset audit dates get the transaction's CURRENT_TIMESTAMP read up front.
+        const auditDates = this.getUnsetAuditDateProperties([]);
+        const columnsByProperty = this.getColumnsByProperty();
+        for (const propertyKey of auditDates) {
+            if (!columns.some(column => column.propertyKey === propertyKey)) columns.push(columnsByProperty.get(propertyKey)!);
+        }
+        const now = auditDates.length > 0
+            ? (await this.executeQuery<{ now: Date }>('SELECT CURRENT_TIMESTAMP AS "now"')).rows[0].now
+            : undefined;
+        const encoders = format === 'binary' ? getBinaryEncoders(columns) : [];
+        const columnList = columns.map(column => quoteIdentifier(column.name)).join(', ');
+        const query = `COPY ${this.qualifiedTableName} (${columnList}) FROM STDIN WITH (FORMAT ${format === 'binary' ? 'binary' : 'csv'})`;
+        const entityClass = this.entity;
+        const fillAuditColumns = (values: Record<string, any>) => {
+            const filled: Record<string, any> = this.fillActorColumns(values as Partial<T>);
+            for (const propertyKey of auditDates) {
+                if (filled[propertyKey] === undefined) filled[propertyKey] = now;
+            }
+            return filled;
         };
+        const validate = (values: Record<string, any>, index: number) => this.validate([values as Partial<T>], false, index);
+
+        async function* encode(): AsyncGenerator<Buffer> {
+            let pending: Buffer[] = [];
+            let pendingBytes = format === 'binary' ? BINARY_COPY_HEADER.length : 0;
+            if (format === 'binary') pending.push(BINARY_COPY_HEADER);
+
+            let index = 0;
+            for await (const entity of source) {
+                const flat = fillAuditColumns(entityClass ? flattenEmbedded(entityClass, entity) : entity as Record<string, any>);
+                await validate(flat, index++);
+                const values = columns.map(column => {
+                    const value = flat[column.propertyKey];
+                    assertEnumValue(column, value);
+                    return transformToDatabase(value, column.transformer);
+                });
+                const row = format === 'binary'
+                    ? encodeBinaryRow(values, encoders)
+                    : Buffer.from(encodeCsvRow(values, columns), 'utf8');
+                pending.push(row);
+                pendingBytes += row.length;
+
+                if (pendingBytes >= COPY_CHUNK_BYTES) {
+                    yield Buffer.concat(pending);
+                    pending = [];
+                    pendingBytes = 0;
+                }
+            }
+
+            if (format === 'binary') pending.push(BINARY_COPY_TRAILER);
+            if (pending.length > 0) yield Buffer.concat(pending);
+        }
+
+        // COPY fires row triggers too, so history records the actor of copied rows.
+        await this.setHistoryActor();
+        const startTime = Date.now();
+        const copyStream = this.transactionManager.getClient().query(this.withTimeout(copyFromStdin(query), options.timeoutMs));
+        try {
+            await pipeline(Readable.from(encode()), copyStream);
+        } catch (error: any) {
+            Logger.write('Copy into table failed', LogLevel.ERROR, {
+                operation: 'copyFrom',
+                table: this.tableName,
+                duration: Date.now() - startTime,
+                transactionId: this.transactionManager.getTransactionId(),
+                errorCode: error.code
+            });
+            throw error.code ? this.translateError(error, query, []) : error;
+        }
+
+        Logger.write('Copy into table completed', LogLevel.INFO, {
+            operation: 'copyFrom',
+            table: this.tableName,
+            duration: Date.now() - startTime,
+            rowCount: copyStream.rowCount,
+            transactionId: this.transactionManager.getTransactionId()
+        });
+        return copyStream.rowCount;
+    }
+
+    /**
+     * Exports the rows matching `where` with `COPY (SELECT ...) TO STDOUT` on the active
+     * transaction's client. The returned stream carries the raw csv or binary output.
+     */
+    copyTo(where: Where<T> = {}, options: CopyToOptions<T> = {}): Readable {
+        const format = options.format ?? 'csv';
+        const columns = this.resolveCopyColumns(options.columns, false);
+        const { whereClause, values } = this.buildWhereClause(where, 1, options);
+        const select = `SELECT ${columns.map(column => quoteIdentifier(column.name)).join(', ')} FROM ${this.qualifiedTableName} ${inlineParameters(whereClause, values)}`;
+        const copyOptions = [`FORMAT ${format === 'binary' ? 'binary' : 'csv'}`];
+        if (options.header && format === 'csv') copyOptions.push('HEADER');
+        const query = `COPY (${select.trim()}) TO STDOUT WITH (${copyOptions.join(', ')})`;
+
+        const copyStream = this.transactionManager.getClient().query(this.withTimeout(copyToStdout(query), options.timeoutMs));
+        const output = new PassThrough();
+        copyStream.on('error', (error: any) => output.destroy(error.code ? this.translateError(error, query, []) : error));
+        return copyStream.pipe(output);
+    }
+
+    protected resolveCopyColumns(properties: string[] | undefined, forInsert: boolean): ColumnMetadata[] {
+        if (!this.entity) {
+            throw new OrmError(`COPY needs column metadata; create the repository for ${this.tableName} from an @Entity class`);
+        }
+
+        const columns = this.getColumnMetadata();
+        if (properties) {
+            return properties.map(propertyKey => {
+                const column = columns.find(col => col.propertyKey === propertyKey);
+                if (!column) throw new UnknownColumnError(propertyKey, this.qualifiedTableName);
+                return column;
+            });
+        }
+
+        // Versions take their default unless listed; copyFrom adds the audit dates itself.
+        const defaulted: Array<ColumnRole | undefined> = ['version', 'createDate', 'updateDate'];
+        return forInsert
+            ? columns.filter(column => !column.generated && !defaulted.includes(column.role) && !/serial$/i.test(column.type) && !/\bGENERATED\b/i.test(column.definition ?? ''))
+            : columns;
+    }
+
+    private withTimeout<Q extends object>(query: Q, timeoutMs?: number): Q {
+        return timeoutMs === undefined ? query : Object.assign(query, { queryTimeoutMs: timeoutMs });
     }
 
     // Abstract methods to be implemented by specific repositories
     // The BaseRepository provides helper methods but enforcing these methods is good practice
-    abstract findById(id: string): Promise<T | null>;
-    abstract findAll(): Promise<T[]>;
-    abstract findByCondition(condition: Partial<T>): Promise<T[]>;
+    abstract findById(id: EntityId<T>, options?: ReadOptions): Promise<T | null>;
+    abstract findAll(options?: ReadOptions): Promise<T[]>;
+    abstract findByCondition(condition: Where<T>, options?: ReadOptions): Promise<T[]>;
     abstract create(entity: T): Promise<T>;
-    abstract update(id: string, entity: Partial<T>): Promise<T | null>;
-    abstract delete(id: string, deletedBy?: string): Promise<boolean>;
-    abstract count(condition?: Partial<T>): Promise<number>;
+    abstract update(id: EntityId<T>, entity: Partial<T>): Promise<T | null>;
+    abstract delete(id: EntityId<T>, deletedBy?: string): Promise<boolean>;
+    abstract count(condition?: Where<T>): Promise<number>;
     abstract bulkCreate(entities: T[]): Promise<T[]>;
     abstract bulkUpdate(entities: Partial<T>[]): Promise<T[]>;
-    abstract bulkDelete(ids: string[]): Promise<number>;
+    abstract bulkDelete(ids: EntityId<T>[]): Promise<number>;
 
     async executeRawQuery<T extends QueryResultRow = any>(query: string, values: any[] = []): Promise<QueryResult<T>> {
         try {
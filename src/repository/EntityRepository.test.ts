@@ -0,0 +1,297 @@
+import { QueryResultRow } from 'pg';
+import {
+    Column, CreateDateColumn, CreatedBy, Entity, PrimaryColumn, PrimaryGeneratedColumn, UpdateDateColumn, UpdatedBy, VersionColumn
+} from '../decorators';
+import { MAX_QUERY_PARAMETERS } from '../query/QueryParameters';
+import { OptimisticLockError } from '../errors/OrmError';
+import { fakeTransactionManager, Respond } from '../testing/FakeTransactionManager';
+import { createRepository } from './EntityRepository';
+
+@Entity({ name: 'items' })
+class Item {
+    @PrimaryGeneratedColumn('increment')
+    id!: number;
+
+    @Column({ type: 'text' })
+    name!: string;
+
+    @Column({ type: 'integer', nullable: true })
+    quantity?: number | null;
+
+    @VersionColumn()
+    version!: number;
+}
+
+@Entity({ name: 'documents' })
+class Document {
+    @PrimaryColumn({ type: 'uuid' })
+    key!: string;
+
+    @VersionColumn()
+    version!: number;
+}
+
+@Entity({ name: 'tokens' })
+class Token {
+    @PrimaryColumn({ type: 'uuid' })
+    key!: string;
+
+    @Column({ type: 'text' })
+    label!: string;
+}
+
+@Entity({ name: 'notes' })
+class Note {
+    @PrimaryGeneratedColumn('increment')
+    id!: number;
+
+    @Column({ type: 'text' })
+    title!: string;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+
+    @CreatedBy()
+    createdBy!: string | null;
+
+    @UpdatedBy()
+    updatedBy!: string | null;
+}
+
+/** Splits the bind values of a `VALUES` list into rows keyed by the column names of `columnList`. */
+function valueRows(columnList: string, values: any[]): QueryResultRow[] {
+    const columns = columnList.split(', ').map(column => JSON.parse(column) as string);
+    const rows: QueryResultRow[] = [];
+    for (let start = 0; start + columns.length <= values.length; start += columns.length) {
+        rows.push(Object.fromEntries(columns.map((column, index) => [column, values[start + index]])));
+    }
+    return rows;
+}
+
+/** Answers `INSERT ... SELECT` like Postgres would, giving rows without an `id` the next one. */
+function insertResponder(): Respond {
+    let nextId = 1;
+    return (text, values) => {
+        const source = /AS "source" \(([^)]*)\)/.exec(text)![1];
+        return valueRows(source, values).map(({ __peculiar_ordinal: _ordinal, ...row }) => ({ id: nextId++, ...row }));
+    };
+}
+
+/** Answers `UPDATE ... FROM (VALUES ...)` with a row for each source row `accept` lets through, last first. */
+function updateResponder(accept: (row: QueryResultRow) => boolean = () => true): Respond {
+    return (text, values) => {
+        const source = /AS "source" \(([^)]*)\)/.exec(text)![1];
+        return valueRows(source, values).filter(accept).reverse();
+    };
+}
+
+describe('EntityRepository', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    describe('bulkCreate', () => {
+        it('inserts each set of properties with just its columns and returns rows in input order', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(insertResponder());
+            const items = createRepository(Item, transactionManager);
+
+            const created = await items.bulkCreate([
+                { name: 'a', quantity: 1 },
+                { name: 'b' },
+                { name: 'c', quantity: null }
+            ] as Item[]);
+
+            expect(queries.map(query => /INSERT INTO \S+ \(([^)]*)\)/.exec(query.text)![1])).toEqual(['"name", "quantity"', '"name"']);
+            expect(created.map(item => [item.name, item.id])).toEqual([['a', 1], ['b', 3], ['c', 2]]);
+            expect(created[1].quantity).toBeUndefined();
+            expect(created[2].quantity).toBeNull();
+        });
+
+        it('selects the rows ordered by their input position', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(insertResponder());
+            await createRepository(Item, transactionManager).bulkCreate([{ name: 'a' }, { name: 'b' }] as Item[]);
+
+            expect(queries[0].text).toContain('ORDER BY "source"."__peculiar_ordinal" RETURNING *');
+            expect(queries[0].values).toEqual(['a', 0, 'b', 1]);
+        });
+
+        it('matches rows by position when Postgres rewrites the supplied keys', async () => {
+            const respond = insertResponder();
+            const { transactionManager } = fakeTransactionManager((text, values) =>
+                respond(text, values).map(({ id: _id, ...row }) => ({ ...row, key: row.key.toLowerCase() })));
+
+            const created = await createRepository(Token, transactionManager).bulkCreate([
+                { key: 'A0EEBC99-9C0B-4EF8-BB6D-6BB9BD380A11', label: 'first' },
+                { key: 'B1EEBC99-9C0B-4EF8-BB6D-6BB9BD380A12', label: 'second' }
+            ]);
+
+            expect(created.map(token => [token.key, token.label])).toEqual([
+                ['a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', 'first'],
+                ['b1eebc99-9c0b-4ef8-bb6d-6bb9bd380a12', 'second']
+            ]);
+        });
+
+        it('splits large inserts into statements within the bind parameter limit', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(insertResponder());
+            const entities = Array.from({ length: 22000 }, (_, index) => ({ name: `item${index}`, quantity: index }));
+
+            const created = await createRepository(Item, transactionManager).bulkCreate(entities as Item[]);
+
+            expect(queries).toHaveLength(2);
+            expect(queries.every(query => query.values.length <= MAX_QUERY_PARAMETERS)).toBe(true);
+            expect(created).toHaveLength(entities.length);
+            expect(created.every((item, index) => item.name === `item${index}`)).toBe(true);
+        });
+    });
+
+    describe('bulkUpdate', () => {
+        it('returns rows in input order whatever order they return in', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(updateResponder());
+
+            const updated = await createRepository(Item, transactionManager).bulkUpdate([
+                { id: 1, name: 'a' },
+                { id: 2, name: 'b' },
+                { id: 3, quantity: 5 }
+            ]);
+
+            expect(queries).toHaveLength(2);
+            expect(updated.map(item => item.id)).toEqual([1, 2, 3]);
+        });
+
+        it('reports every versioned entity whose version did not match', async () => {
+            const current = new Map([[1, 1], [2, 2], [3, 1], [4, 7]]);
+            const { transactionManager } = fakeTransactionManager(updateResponder(row =>
+                row.version === undefined || current.get(row.id) === row.version));
+
+            const error = await createRepository(Item, transactionManager).bulkUpdate([
+                { id: 1, name: 'a', version: 1 },
+                { id: 2, name: 'b', version: 1 },
+                { id: 3, name: 'c' },
+                { id: 4, name: 'd', version: 6 }
+            ]).catch(caught => caught);
+
+            expect(error).toBeInstanceOf(OptimisticLockError);
+            expect(error.conflicts).toEqual([
+                { entityId: 2, expectedVersion: 1 },
+                { entityId: 4, expectedVersion: 6 }
+            ]);
+        });
+    });
+
+    describe('bulkDelete', () => {
+        it('deletes by key alone when no id carries a version', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(() => []);
+            await createRepository(Item, transactionManager).bulkDelete([1, 2]);
+
+            expect(queries[0].text).toBe('DELETE FROM "public"."items" WHERE "id" IN ($1, $2)');
+        });
+
+        it('reports exactly the ids whose version did not match', async () => {
+            const current = new Map([[1, 1], [2, 3], [3, 2], [4, 5], [5, 1]]);
+            const { transactionManager, queries } = fakeTransactionManager(updateResponder(row =>
+                row.version === null || current.get(row.id) === row.version));
+
+            const error = await createRepository(Item, transactionManager).bulkDelete([
+                { id: 1, version: 1 },
+                { id: 2, version: 4 },
+                3,
+                { id: 4, version: 2 },
+                5
+            ]).catch(caught => caught);
+
+            expect(queries[0].text).toContain('USING (VALUES ($1::integer, $2::integer, $3::integer), ');
+            expect(queries[0].text).toContain('("source"."version" IS NULL OR "target"."version" = "source"."version")');
+            expect(queries[0].values.slice(6, 9)).toEqual([2, 3, null]);
+            expect(error).toBeInstanceOf(OptimisticLockError);
+            expect(error.conflicts).toEqual([
+                { entityId: 2, expectedVersion: 4 },
+                { entityId: 4, expectedVersion: 2 }
+            ]);
+        });
+
+        it('splits large deletes into statements within the bind parameter limit', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(() => []);
+            const ids = Array.from({ length: MAX_QUERY_PARAMETERS + 10 }, (_, index) => index + 1);
+
+            await createRepository(Item, transactionManager).bulkDelete(ids);
+
+            expect(queries.map(query => query.values.length)).toEqual([MAX_QUERY_PARAMETERS, 10]);
+        });
+
+        it('reports conflicts from every chunk of a versioned delete', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(updateResponder(row => row.id !== 30000));
+            const ids = Array.from({ length: 30000 }, (_, index) => ({ id: index + 1, version: 1 }));
+
+            const error = await createRepository(Item, transactionManager).bulkDelete(ids).catch(caught => caught);
+
+            expect(queries).toHaveLength(2);
+            expect(queries.every(query => query.values.length <= MAX_QUERY_PARAMETERS)).toBe(true);
+            expect(error.conflicts).toEqual([{ entityId: 30000, expectedVersion: 1 }]);
+        });
+
+        it('does not report ids whose key Postgres returns rewritten', async () => {
+            const respond = updateResponder();
+            const { transactionManager } = fakeTransactionManager((text, values) =>
+                respond(text, values).map(row => ({ ...row, key: row.key.toLowerCase() })));
+
+            await expect(createRepository(Document, transactionManager)
+                .bulkDelete([{ key: 'A0EEBC99-9C0B-4EF8-BB6D-6BB9BD380A11', version: 2 }])).resolves.toBe(1);
+        });
+    });
+
+    describe('audit columns', () => {
+        it('sets the audit dates and actors on create without relying on column defaults', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(() => [{ id: 1 }], { actor: 'alice' });
+
+            await createRepository(Note, transactionManager).create({ title: 'a' } as Note);
+
+            expect(queries[0].text).toBe('INSERT INTO "public"."notes" ("title", "createdBy", "updatedBy", "createdAt", "updatedAt") '
+                + 'VALUES ($1, $2, $3, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP) RETURNING *');
+            expect(queries[0].values).toEqual(['a', 'alice', 'alice']);
+        });
+
+        it('keeps audit values the entity sets', async () => {
+            const createdAt = new Date('2024-01-01T00:00:00Z');
+            const { transactionManager, queries } = fakeTransactionManager(() => [{ id: 1 }], { actor: 'alice' });
+
+            await createRepository(Note, transactionManager).create({ title: 'a', createdAt, createdBy: 'bob' } as Note);
+
+            expect(queries[0].text).toContain('("title", "createdAt", "createdBy", "updatedBy", "updatedAt") VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)');
+            expect(queries[0].values).toEqual(['a', createdAt, 'bob', 'alice']);
+        });
+
+        it('selects the audit dates for every row of a bulk insert', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(insertResponder());
+
+            await createRepository(Note, transactionManager).bulkCreate([{ title: 'a' }, { title: 'b' }] as Note[]);
+
+            expect(queries[0].text).toContain('("title", "createdBy", "updatedBy", "createdAt", "updatedAt") SELECT');
+            expect(queries[0].text).toContain('CURRENT_TIMESTAMP, CURRENT_TIMESTAMP FROM (VALUES');
+        });
+
+        it('never changes the creation columns on update', async () => {
+            const { transactionManager, queries } = fakeTransactionManager(() => [{ id: 1 }], { actor: 'alice' });
+
+            await createRepository(Note, transactionManager).update(1, { title: 'b', createdAt: new Date(), createdBy: 'mallory' });
+
+            expect(queries[0].text).not.toContain('"createdAt"');
+            expect(queries[0].text).not.toContain('"createdBy"');
+            expect(queries[0].text).toContain('"updatedAt" = CURRENT_TIMESTAMP');
+            expect(queries[0].values).toContain('alice');
+        });
+
+        it('copies the transaction timestamp into rows without audit dates', async () => {
+            const now = new Date('2024-05-01T12:00:00Z');
+            const { transactionManager, queries, copied } = fakeTransactionManager(() => [{ now }], { actor: 'alice' });
+
+            await createRepository(Note, transactionManager).copyFrom([{ title: 'a' }]);
+
+            expect(queries[0].text).toBe('SELECT CURRENT_TIMESTAMP AS "now"');
+            expect(queries[1].text).toBe('COPY "public"."notes" ("title", "createdBy", "updatedBy", "createdAt", "updatedAt") FROM STDIN WITH (FORMAT csv)');
+            expect(copied.join('')).toBe(`"a","alice","alice","${now.toISOString()}","${now.toISOString()}"\n`);
+        });
+    });
+});
@@ -0,0 +1,674 @@
+import { QueryResult, QueryResultRow } from 'pg';
+import { BaseRepository, BULK_ORDINAL_COLUMN } from './BaseRepository';
+import { TransactionManager } from '../connection/TransactionManager';
+import { EntityId, EntityTarget, ReadOptions, SoftDeleteOptions } from '../types';
+import { Where } from '../query/Where';
+import { chunkByParameterLimit, MAX_QUERY_PARAMETERS, QueryParameters } from '../query/QueryParameters';
+import { formatTableName, getColumnByRole, getPrimaryColumns, RelationMetadata, renderCastType } from '../decorators';
+import { OptimisticLockError, OrmError, VersionConflict } from '../errors/OrmError';
+import { quoteIdentifier } from '../utils/Identifier';
+import { hasEntityListeners } from '../subscribers/EntitySubscriber';
+import { resolveActor } from '../audit/ActorProvider';
+import { HistoryEntry, renderHistoryKey } from '../audit/History';
+
+type RelationCollection = { relation: RelationMetadata; items: any[] };
+
+/**
+ * Implements the full `IRepository` contract from decorator metadata. Extend it to add
+ * entity specific queries or to override individual operations.
+ */
+export class EntityRepository<T> extends BaseRepository<T> {
+    declare protected readonly entity: EntityTarget<T>;
+
+    constructor(transactionManager: TransactionManager, entity: EntityTarget<T>) {
+        super(transactionManager, entity);
+    }
+
+    async findById(id: EntityId<T>, options: ReadOptions = {}): Promise<T | null> {
+        const { whereClause, values } = this.buildPrimaryKeyCondition(id);
+        const softDelete = this.buildSoftDeleteCondition(options);
+        const query = `SELECT * FROM ${this.qualifiedTableName} ${whereClause}${softDelete ? ` AND ${softDelete}` : ''}`;
+        const result = await this.executeQuery(query, values);
+        if (!result.rows[0]) return null;
+
+        const [entity] = await this.finishLoad([this.mapRow(result.rows[0], options)], options);
+        return entity;
+    }
+
+    async findAll(options: ReadOptions = {}): Promise<T[]> {
+        const { whereClause, values } = this.buildWhereClause({}, 1, options);
+        const result = await this.executeQuery(`SELECT * FROM ${this.qualifiedTableName} ${whereClause}`, values);
+        return this.finishLoad(this.mapRows(result.rows, options), options);
+    }
+
+    async findByCondition(condition: Where<T>, options: ReadOptions = {}): Promise<T[]> {
+        const { whereClause, values } = this.buildWhereClause(condition, 1, options);
+        const result = await this.executeQuery(`SELECT * FROM ${this.qualifiedTableName} ${whereClause}`, values);
+        return this.finishLoad(this.mapRows(result.rows, options), options);
+    }
+
+    /** Inserts the entity, then saves its relation collections. */
+    async create(entity: T): Promise<T> {
+        return this.withEntityEvents(['beforeInsert', 'afterInsert'], async () => {
+            await this.dispatchEvent('beforeInsert', entity);
+            const created = await this.insertOne(entity);
+            await this.dispatchEvent('afterInsert', created);
+            return created;
+        });
+    }
+
+    private async insertOne(entity: T): Promise<T> {
+        const { values: split, collections } = this.splitRelations(entity);
+        const columnValues = this.fillActorColumns(split);
+        await this.validate([columnValues]);
+        const { columns, values, placeholders } = this.getEntityColumns(columnValues);
+        for (const propertyKey of this.getUnsetAuditDateProperties(this.collectPropertyKeys([columnValues]))) {
+            columns.push(this.quoteColumn(propertyKey));
+            placeholders.push('CURRENT_TIMESTAMP');
+        }
+        const query = columns.length > 0
+            ? `INSERT INTO ${this.qualifiedTableName} (${columns.join(', ')}) VALUES (${placeholders.join(', ')}) RETURNING *`
+            : `INSERT INTO ${this.qualifiedTableName} DEFAULT VALUES RETURNING *`;
+
+        const result = await this.executeQuery(query, values);
+        const created = this.mapRow(result.rows[0]);
+        await this.saveCollections(created, collections, true);
+        return created;
+    }
+
+    /**
+     * Updates the set properties of the entity, then saves the relation collections given.
+     * For versioned entities the version is incremented, and a version set on the entity
+     * (or on an `id` object) is the one expected: a row without it throws `OptimisticLockError`.
+     */
+    async update(id: EntityId<T>, entity: Partial<T>): Promise<T | null> {
+        return this.withEntityEvents(['beforeUpdate', 'afterUpdate'], async () => {
+            await this.dispatchEvent('beforeUpdate', entity, id);
+            const updated = await this.updateOne(id, entity);
+            if (updated) await this.dispatchEvent('afterUpdate', updated, id);
+            return updated;
+        });
+    }
+
+    private async updateOne(id: EntityId<T>, entity: Partial<T>): Promise<T | null> {
+        const { values: columnValues, collections } = this.splitRelations(entity);
+        const { values: versioned, expectedVersion = this.takeExpectedVersion(id as object).expectedVersion } =
+            this.takeExpectedVersion(columnValues);
+        const changes = this.omitAuditColumns(versioned as Partial<T>);
+        await this.validate([changes], true);
+        const { setClause, values } = this.buildUpdateSet(changes);
+        if (!setClause) {
+            const existing = await this.findById(id);
+            if (existing) await this.saveCollections(existing, collections, false);
+            return existing;
+        }
+
+        const { whereClause, values: keyValues } = this.buildPrimaryKeyCondition(id, values.length + 1);
+        const params = new QueryParameters(values.length + keyValues.length);
+        const query = `
+            UPDATE ${this.qualifiedTableName}
+            SET ${setClause}${this.buildManagedAssignments(params)}
+            ${whereClause}${this.buildVersionCondition(expectedVersion, params)}
+            RETURNING *
+        `;
+
+        const result = await this.executeQuery(query, [...values, ...keyValues, ...params.getValues()]);
+        if (!result.rows[0]) {
+            if (expectedVersion !== undefined) throw this.versionConflict(id, expectedVersion);
+            return null;
+        }
+
+        const updated = this.mapRow(result.rows[0]);
+        await this.saveCollections(updated, collections, false);
+        return updated;
+    }
+
+    /**
+     * Soft deletes the row when the entity has a `@DeleteDateColumn`, recording `deletedBy`,
+     * or else the current actor, in its `@DeletedBy` column, and deletes it otherwise. A row that is already soft-deleted
+     * counts as not found. For versioned entities an `id` object may carry the expected version.
+     */
+    async delete(id: EntityId<T>, deletedBy?: string): Promise<boolean> {
+        const params = new QueryParameters();
+        const setClause = this.buildSoftDeleteSet(deletedBy, params);
+        if (!setClause) {
+            return this.hardDelete(id);
+        }
+
+        return this.withEntityEvents(['beforeRemove', 'afterRemove'], async () => {
+            await this.dispatchBeforeRemove([id], {});
+
+            const { whereClause, values } = this.buildPrimaryKeyCondition(id, params.nextIndex);
+            const versionParams = new QueryParameters(params.getValues().length + values.length);
+            const { expectedVersion } = this.takeExpectedVersion(id as object);
+            const query = `UPDATE ${this.qualifiedTableName} SET ${setClause} ${whereClause} AND ${this.buildSoftDeleteCondition()}` +
+                this.buildVersionCondition(expectedVersion, versionParams) + this.buildRemoveReturning();
+            const result = await this.executeQuery(query, [...params.getValues(), ...values, ...versionParams.getValues()]);
+            return this.checkDeleted(id, expectedVersion, result);
+        });
+    }
+
+    /** Removes the row, whether or not the entity supports soft deletion. */
+    async hardDelete(id: EntityId<T>): Promise<boolean> {
+        return this.withEntityEvents(['beforeRemove', 'afterRemove'], async () => {
+            await this.dispatchBeforeRemove([id], { withDeleted: true });
+
+            const { whereClause, values } = this.buildPrimaryKeyCondition(id);
+            const params = new QueryParameters(values.length);
+            const { expectedVersion } = this.takeExpectedVersion(id as object);
+            const query = `DELETE FROM ${this.qualifiedTableName} ${whereClause}` +
+                this.buildVersionCondition(expectedVersion, params) + this.buildRemoveReturning();
+            const result = await this.executeQuery(query, [...values, ...params.getValues()]);
+            return this.checkDeleted(id, expectedVersion, result);
+        });
+    }
+
+    private async checkDeleted(id: EntityId<T>, expectedVersion: number | undefined, result: QueryResult): Promise<boolean> {
+        if (result.rowCount) {
+            await this.dispatchAfterRemove(result.rows);
+            return true;
+        }
+        if (expectedVersion !== undefined) throw this.versionConflict(id, expectedVersion);
+        return false;
+    }
+
+    /** Loads the rows about to be removed for `beforeRemove` listeners, if there are any. */
+    private async dispatchBeforeRemove(ids: EntityId<T>[], scope: SoftDeleteOptions): Promise<void> {
+        if (!hasEntityListeners(this.entity, ['beforeRemove'])) return;
+
+        const softDelete = this.buildSoftDeleteCondition(scope);
+        for (const chunk of chunkByParameterLimit(ids, this.getPrimaryColumns().length)) {
+            const { whereClause, values } = this.buildWhereInClause(chunk);
+            const result = await this.executeQuery(
+                `SELECT * FROM ${this.qualifiedTableName} ${whereClause}${softDelete ? ` AND ${softDelete}` : ''}`,
+                values
+            );
+            for (const entity of this.mapRows(result.rows)) {
+                await this.dispatchEvent('beforeRemove', entity, this.getEntityId(entity));
+            }
+        }
+    }
+
+    /** Returns the removed rows when `afterRemove` listeners need them. */
+    private buildRemoveReturning(): string {
+        return hasEntityListeners(this.entity, ['afterRemove']) ? ' RETURNING *' : '';
+    }
+
+    private async dispatchAfterRemove(rows: QueryResultRow[]): Promise<void> {
+        if (rows.length === 0) return;
+        for (const entity of this.mapRows(rows)) {
+            await this.dispatchEvent('afterRemove', entity, this.getEntityId(entity));
+        }
+    }
+
+    private versionConflict(id: EntityId<T>, expectedVersion: number): OptimisticLockError {
+        const entityId = typeof id === 'object' ? this.getEntityId(id) : id;
+        return new OptimisticLockError(this.entity.name, [{ entityId, expectedVersion }]);
+    }
+
+    /**
+     * Clears the soft delete marks of a deleted row. Returns `false` if no deleted row matched.
+     * `beforeUpdate` listeners get the cleared columns, `afterUpdate` listeners the restored row.
+     */
+    async restore(id: EntityId<T>): Promise<boolean> {
+        const deleteDate = getColumnByRole(this.entity, 'deleteDate');
+        if (!deleteDate) {
+            throw new OrmError(`Entity ${this.entity.name} has no @DeleteDateColumn to restore`);
+        }
+
+        const changes: Record<string, any> = { [deleteDate.propertyKey]: null };
+        const deletedBy = getColumnByRole(this.entity, 'deletedBy');
+        if (deletedBy) changes[deletedBy.propertyKey] = null;
+
+        return this.withEntityEvents(['beforeUpdate', 'afterUpdate'], async () => {
+            await this.dispatchEvent('beforeUpdate', changes, id);
+
+            const { setClause, values } = this.buildUpdateSet(this.omitAuditColumns(changes as Partial<T>));
+            const { whereClause, values: keyValues } = this.buildPrimaryKeyCondition(id, values.length + 1);
+            const params = new QueryParameters(values.length + keyValues.length);
+            const softDelete = this.buildSoftDeleteCondition({ onlyDeleted: true });
+            const result = await this.executeQuery(
+                `UPDATE ${this.qualifiedTableName} SET ${setClause}${this.buildManagedAssignments(params)} ${whereClause} AND ${softDelete} RETURNING *`,
+                [...values, ...keyValues, ...params.getValues()]
+            );
+            if (!result.rows[0]) return false;
+
+            await this.dispatchEvent('afterUpdate', this.mapRow(result.rows[0]), id);
+            return true;
+        });
+    }
+
+    /** The recorded changes of one row of an `@Audited` entity, oldest first. */
+    async history(id: EntityId<T>): Promise<HistoryEntry<T>[]> {
+        const params = new QueryParameters();
+        const condition = this.buildHistoryKeyCondition(id, params);
+        const result = await this.executeQuery(`
+            SELECT "operation", "changed_at", "actor", "old_row", "new_row"
+            FROM ${formatTableName(this.getHistoryTable())}
+            WHERE ${condition}
+            ORDER BY "changed_at", "history_id"
+        `, params.getValues());
+
+        return result.rows.map(row => ({
+            operation: row.operation,
+            changedAt: row.changed_at,
+            actor: row.actor,
+            before: row.old_row ? this.mapRow(row.old_row) : null,
+            after: row.new_row ? this.mapRow(row.new_row) : null
+        }));
+    }
+
+    /**
+     * The row of an `@Audited` entity as it was at `timestamp`, or `null` if it did not exist
+     * then. Changes are dated by the start of their transaction.
+     */
+    async asOf(id: EntityId<T>, timestamp: Date): Promise<T | null> {
+        const params = new QueryParameters();
+        const condition = this.buildHistoryKeyCondition(id, params);
+        const result = await this.executeQuery(`
+            SELECT "new_row"
+            FROM ${formatTableName(this.getHistoryTable())}
+            WHERE ${condition} AND "changed_at" <= ${params.add(timestamp)}
+            ORDER BY "changed_at" DESC, "history_id" DESC
+            LIMIT 1
+        `, params.getValues());
+
+        const row = result.rows[0];
+        return row?.new_row ? this.mapRow(row.new_row) : null;
+    }
+
+    /** Matches the history rows of `id`, keyed the way the history trigger keys them. */
+    private buildHistoryKeyCondition(id: EntityId<T>, params: QueryParameters): string {
+        const primaryColumns = getPrimaryColumns(this.entity);
+        const values = this.getPrimaryKeyValues(id)
+            .map((value, index) => `${params.add(value)}::${renderCastType(primaryColumns[index])}`);
+        return `"row_key" = ${renderHistoryKey(primaryColumns, values)}`;
+    }
+
+    async count(condition?: Where<T>, options: SoftDeleteOptions = {}): Promise<number> {
+        const { whereClause, values } = this.buildWhereClause(condition || {}, 1, options);
+        const query = `SELECT COUNT(*) AS count FROM ${this.qualifiedTableName} ${whereClause}`;
+        const result = await this.executeQuery<{ count: string }>(query, values);
+        return parseInt(result.rows[0].count, 10);
+    }
+
+    /**
+     * Inserts the entities in as few statements as the bind parameter limit allows, one
+     * group per set of properties set. Rows are returned in input order.
+     */
+    async bulkCreate(entities: T[]): Promise<T[]> {
+        if (entities.length === 0) return [];
+
+        return this.withEntityEvents(['beforeInsert', 'afterInsert'], async () => {
+            for (const entity of entities) {
+                await this.dispatchEvent('beforeInsert', entity);
+            }
+            const created = await this.insertMany(entities);
+            for (const entity of created) {
+                await this.dispatchEvent('afterInsert', entity);
+            }
+            return created;
+        });
+    }
+
+    private async insertMany(entities: T[]): Promise<T[]> {
+        const split = entities.map(entity => this.splitRelations(entity));
+        const rows = split.map(({ values }) => this.fillActorColumns(values));
+        await this.validate(rows);
+
+        // `DEFAULT` is not allowed in a `VALUES` list read by `SELECT`, so each group of
+        // entities setting the same properties is inserted with just those columns.
+        const groups = new Map<string, { propertyKeys: string[]; rows: Array<{ index: number; entity: Partial<T> }> }>();
+        const created = new Array<T>(entities.length);
+        const insertedAlone = new Set<number>();
+        for (const [index, entity] of rows.entries()) {
+            const propertyKeys = this.collectPropertyKeys([entity]);
+            if (propertyKeys.length === 0) {
+                // insertOne saves the collections itself.
+                created[index] = await this.insertOne(entities[index]);
+                insertedAlone.add(index);
+                continue;
+            }
+
+            const shape = [...propertyKeys].sort().join(',');
+            const group = groups.get(shape) ?? { propertyKeys, rows: [] };
+            group.rows.push({ index, entity });
+            groups.set(shape, group);
+        }
+
+        for (const { propertyKeys, rows: groupRows } of groups.values()) {
+            for (const chunk of chunkByParameterLimit(groupRows, propertyKeys.length + 1)) {
+                const { query, values } = this.buildBulkInsertFromValues(chunk, propertyKeys);
+                const result = await this.executeQuery(query, values);
+                // Rows come back in the order of the ordinal they were selected by. Keys are not
+                // matched, since Postgres may return them rewritten, such as uuids in lower case.
+                chunk.forEach(({ index }, position) => { created[index] = this.mapRow(result.rows[position]); });
+            }
+        }
+
+        for (const [index, { collections }] of split.entries()) {
+            if (collections.length === 0 || insertedAlone.has(index)) continue;
+            await this.saveCollections(created[index], collections, true);
+        }
+        return created;
+    }
+
+    /**
+     * Updates each entity's set properties by primary key. Entities are grouped by the
+     * properties they set and each group is applied with `UPDATE ... FROM (VALUES ...)`
+     * in parameter-limit sized chunks. Updated rows are returned in input order.
+     *
+     * Versioned entities that carry their version only update while it matches. The others
+     * are still applied, then one `OptimisticLockError` lists every conflicting entity, so
+     * run the update in a transaction to discard it as a whole.
+     */
+    async bulkUpdate(entities: Partial<T>[]): Promise<T[]> {
+        if (entities.length === 0) return [];
+
+        return this.withEntityEvents(['beforeUpdate', 'afterUpdate'], async () => {
+            for (const entity of entities) {
+                await this.dispatchEvent('beforeUpdate', entity, this.getEntityId(entity));
+            }
+            const updated = await this.updateMany(entities);
+            for (const entity of updated) {
+                await this.dispatchEvent('afterUpdate', entity, this.getEntityId(entity));
+            }
+            return updated;
+        });
+    }
+
+    private async updateMany(entities: Partial<T>[]): Promise<T[]> {
+        const split = entities.map(entity => {
+            const { values, collections } = this.splitRelations(entity);
+            return { values: this.omitAuditColumns(values), collections };
+        });
+        await this.validate(split.map(({ values }) => values), true);
+        const version = this.getVersionColumn();
+        const groups = new Map<string, { updateKeys: string[]; rows: Array<{ index: number; entity: Partial<T> }> }>();
+        split.forEach(({ values: entity }, index) => {
+            const updateKeys = Object.keys(entity as object)
+                .filter(key => !this.isPrimaryKeyProperty(key) && (entity as any)[key] !== undefined)
+                .filter(key => key !== version?.propertyKey || (entity as any)[key] !== null);
+            if (updateKeys.length === 0) return;
+
+            const shape = [...updateKeys].sort().join(',');
+            const group = groups.get(shape) ?? { updateKeys, rows: [] };
+            group.rows.push({ index, entity });
+            groups.set(shape, group);
+        });
+
+        const updated: Array<{ index: number; entity: T }> = [];
+        const parametersPerRow = (updateKeys: string[]) => 1 + this.getPrimaryColumns().length + updateKeys.length;
+
+        for (const { updateKeys, rows } of groups.values()) {
+            // One parameter is left for the `@UpdatedBy` actor.
+            for (const chunk of chunkByParameterLimit(rows, parametersPerRow(updateKeys), MAX_QUERY_PARAMETERS - 1)) {
+                const { query, values } = this.buildBulkUpdateFromValues(chunk, updateKeys);
+                const result = await this.executeQuery(query, values);
+
+                for (const { [BULK_ORDINAL_COLUMN]: index, ...row } of result.rows) {
+                    updated.push({ index, entity: this.mapRow(row) });
+                }
+            }
+        }
+
+        updated.sort((left, right) => left.index - right.index);
+
+        if (version) {
+            const conflicts: VersionConflict[] = [];
+            split.forEach(({ values }, index) => {
+                const expectedVersion = (values as any)[version.propertyKey];
+                if (expectedVersion === undefined || expectedVersion === null) return;
+                if (!updated.some(row => row.index === index)) {
+                    conflicts.push({ entityId: this.getEntityId(values), expectedVersion });
+                }
+            });
+            if (conflicts.length > 0) {
+                throw new OptimisticLockError(this.entity.name, conflicts);
+            }
+        }
+
+        for (const [index, { values, collections }] of split.entries()) {
+            if (collections.length === 0) continue;
+            const owner = updated.find(row => row.index === index)?.entity ?? values as T;
+            await this.saveCollections(owner, collections, false);
+        }
+        return updated.map(({ entity }) => entity);
+    }
+
+    /**
+     * Saves relation collections of a stored entity and sets them on it. One-to-many children
+     * are inserted or updated to reference the owner, and children no longer listed are
+     * detached as the relation's `orphans` setting says. Many-to-many targets without a key
+     * are inserted, then the owner's join table rows are made to match the collection.
+     * `created` skips detaching, since a new owner has nothing to detach.
+     */
+    protected async saveCollections(owner: T, collections: RelationCollection[], created: boolean): Promise<void> {
+        for (const { relation, items } of collections) {
+            const repository = createRepository(relation.target as EntityTarget<any>, this.transactionManager);
+            const ownerId = this.getEntityId(owner);
+            const [targetKey] = repository.getPrimaryColumns();
+            const saved: any[] = [];
+
+            if (relation.kind === 'one-to-many') {
+                for (const item of items) {
+                    const { [relation.inverseSide!]: _owner, ...child } = item;
+                    child[relation.joinColumn!] = ownerId;
+                    const id = child[targetKey.propertyKey];
+                    if (id === undefined || id === null) {
+                        saved.push(await repository.create(child));
+                        continue;
+                    }
+
+                    const updated = await repository.update(id, child);
+                    if (!updated) {
+                        throw new OrmError(`Cannot save ${relation.target.name} ${JSON.stringify(id)} in ${relation.propertyKey}: it does not exist`);
+                    }
+                    saved.push(updated);
+                }
+
+                if (!created) await repository.detachOrphans(relation, ownerId, saved);
+            } else {
+                for (const item of items) {
+                    const id = item[targetKey.propertyKey];
+                    saved.push(id === undefined || id === null ? await repository.create(item) : item);
+                }
+                await this.syncJoinTable(relation, ownerId, saved.map(item => item[targetKey.propertyKey]), created);
+            }
+
+            (owner as any)[relation.propertyKey] = saved;
+        }
+    }
+
+    /**
+     * Detaches this repository's rows that reference `ownerId` through `relation` but are not in `kept`.
+     * Deleted orphans are soft-deleted when the entity has a `@DeleteDateColumn`.
+     */
+    protected async detachOrphans(relation: RelationMetadata, ownerId: EntityId, kept: T[]): Promise<void> {
+        const [key] = this.getPrimaryColumns();
+        const joinColumn = this.quoteColumn(relation.joinColumn!);
+        const params = new QueryParameters();
+        const softDelete = relation.orphans === 'delete' ? this.buildSoftDeleteSet(undefined, params) : null;
+        const conditions = [`${joinColumn} = ${params.add(this.toDatabaseValue(relation.joinColumn!, ownerId))}`];
+        if (kept.length > 0) {
+            const keptIds = kept.map(entity => params.add(this.toDatabaseValue(key.propertyKey, (entity as any)[key.propertyKey])));
+            conditions.push(`${quoteIdentifier(key.name)} NOT IN (${keptIds.join(', ')})`);
+        }
+
+        if (softDelete) conditions.push(this.buildSoftDeleteCondition());
+
+        const statement = softDelete
+            ? `UPDATE ${this.qualifiedTableName} SET ${softDelete}`
+            : relation.orphans === 'delete'
+                ? `DELETE FROM ${this.qualifiedTableName}`
+                : `UPDATE ${this.qualifiedTableName} SET ${joinColumn} = NULL${this.buildManagedAssignments(params)}`;
+        await this.executeQuery(`${statement} WHERE ${conditions.join(' AND ')}`, params.getValues());
+    }
+
+    /** Makes the join table rows of `ownerId` match `targetIds`. */
+    protected async syncJoinTable(relation: RelationMetadata, ownerId: EntityId, targetIds: any[], created: boolean): Promise<void> {
+        const joinTable = relation.joinTable!;
+        const table = formatTableName(joinTable);
+        const joinColumn = quoteIdentifier(joinTable.joinColumn);
+        const inverseJoinColumn = quoteIdentifier(joinTable.inverseJoinColumn);
+        const target = createRepository(relation.target as EntityTarget<any>, this.transactionManager);
+        const [targetKey] = target.getPrimaryColumns();
+        const ownerValue = this.getPrimaryKeyValues(ownerId)[0];
+        const targetValues = targetIds.map(id => target.toDatabaseValue(targetKey.propertyKey, id));
+
+        if (!created) {
+            const params = new QueryParameters();
+            const conditions = [`${joinColumn} = ${params.add(ownerValue)}`];
+            if (targetValues.length > 0) {
+                conditions.push(`${inverseJoinColumn} NOT IN (${targetValues.map(value => params.add(value)).join(', ')})`);
+            }
+            await this.executeQuery(`DELETE FROM ${table} WHERE ${conditions.join(' AND ')}`, params.getValues());
+        }
+
+        for (const chunk of chunkByParameterLimit(targetValues, 1, MAX_QUERY_PARAMETERS - 1)) {
+            const params = new QueryParameters();
+            const owner = params.add(ownerValue);
+            const rows = chunk.map(value => `(${owner}, ${params.add(value)})`);
+            await this.executeQuery(
+                `INSERT INTO ${table} (${joinColumn}, ${inverseJoinColumn}) VALUES ${rows.join(', ')} ON CONFLICT DO NOTHING`,
+                params.getValues()
+            );
+        }
+    }
+
+    /**
+     * Deletes the rows like `delete`, soft deleting them when the entity supports it, in
+     * parameter-limit sized chunks.
+     *
+     * Ids that carry a version only delete their row while it matches. The others are still
+     * deleted, then one `OptimisticLockError` lists every conflicting id, as in `bulkUpdate`.
+     */
+    async bulkDelete(ids: EntityId<T>[], deletedBy?: string): Promise<number> {
+        if (ids.length === 0) return 0;
+
+        return this.withEntityEvents(['beforeRemove', 'afterRemove'], async () => {
+            const expectedVersions = ids.map(id => this.takeExpectedVersion(id as object).expectedVersion);
+            const checksVersions = expectedVersions.some(expectedVersion => expectedVersion !== undefined);
+            const target = quoteIdentifier('target');
+            const params = new QueryParameters();
+            const setClause = this.buildSoftDeleteSet(deletedBy, params, checksVersions ? target : undefined);
+            await this.dispatchBeforeRemove(ids, { withDeleted: !setClause });
+
+            const setValues = params.getValues();
+            const parameterLimit = MAX_QUERY_PARAMETERS - setValues.length;
+            const keyCount = this.getPrimaryColumns().length;
+            let removedCount = 0;
+
+            if (checksVersions) {
+                const rows = ids.map((id, index) => ({ index, id, expectedVersion: expectedVersions[index] }));
+                const removed = new Set<number>();
+                // Each row binds its ordinal, its key and its expected version.
+                for (const chunk of chunkByParameterLimit(rows, keyCount + 2, parameterLimit)) {
+                    const chunkParams = new QueryParameters(setValues.length);
+                    const query = this.buildVersionedDeleteFromValues(chunk, setClause, chunkParams);
+                    const result = await this.executeQuery(query, [...setValues, ...chunkParams.getValues()]);
+
+                    const removedRows = result.rows.map(({ [BULK_ORDINAL_COLUMN]: index, ...row }) => {
+                        removed.add(index);
+                        return row;
+                    });
+                    await this.dispatchAfterRemove(removedRows);
+                    removedCount += result.rowCount ?? 0;
+                }
+                this.assertVersionsMatched(rows, removed);
+                return removedCount;
+            }
+
+            for (const chunk of chunkByParameterLimit(ids, keyCount, parameterLimit)) {
+                const { whereClause, values } = this.buildWhereInClause(chunk, params.nextIndex);
+                const query = (setClause
+                    ? `UPDATE ${this.qualifiedTableName} SET ${setClause} ${whereClause} AND ${this.buildSoftDeleteCondition()}`
+                    : `DELETE FROM ${this.qualifiedTableName} ${whereClause}`) + this.buildRemoveReturning();
+                const result = await this.executeQuery(query, [...setValues, ...values]);
+                await this.dispatchAfterRemove(result.rows);
+                removedCount += result.rowCount ?? 0;
+            }
+            return removedCount;
+        });
+    }
+
+    /**
+     * Builds the delete, or the soft delete setting `setClause`, of each row joined to a
+     * `VALUES` list of the ids, matching only while the version matches for ids that carry
+     * one. Every returned row carries the input position of its id in `BULK_ORDINAL_COLUMN`,
+     * so conflicts are found without comparing keys Postgres may return rewritten.
+     */
+    private buildVersionedDeleteFromValues(
+        rows: Array<{ index: number; id: EntityId<T>; expectedVersion?: number }>,
+        setClause: string | null,
+        params: QueryParameters
+    ): string {
+        const primaryColumns = this.getPrimaryColumns();
+        const keyTypes = getPrimaryColumns(this.entity).map(column => renderCastType(column));
+        const valueSets = rows.map(({ index, id, expectedVersion }) => {
+            const placeholders = [
+                `${params.add(index)}::integer`,
+                ...this.getPrimaryKeyValues(id).map((value, i) => `${params.add(value)}::${keyTypes[i]}`),
+                `${params.add(expectedVersion ?? null)}::integer`
+            ];
+            return `(${placeholders.join(', ')})`;
+        });
+
+        const target = quoteIdentifier('target');
+        const source = quoteIdentifier('source');
+        const ordinal = quoteIdentifier(BULK_ORDINAL_COLUMN);
+        const version = quoteIdentifier(this.getVersionColumn()!.name);
+        const sourceColumns = [ordinal, ...primaryColumns.map(column => quoteIdentifier(column.name)), version];
+        const conditions = primaryColumns.map(column => {
+            const name = quoteIdentifier(column.name);
+            return `${target}.${name} = ${source}.${name}`;
+        });
+        conditions.push(`(${source}.${version} IS NULL OR ${target}.${version} = ${source}.${version})`);
+        const sourceList = `(VALUES ${valueSets.join(', ')}) AS ${source} (${sourceColumns.join(', ')})`;
+
+        if (setClause) {
+            conditions.push(this.buildSoftDeleteCondition({}, target));
+            return `
+                UPDATE ${this.qualifiedTableName} AS ${target}
+                SET ${setClause}
+                FROM ${sourceList}
+                WHERE ${conditions.join(' AND ')}
+                RETURNING ${target}.*, ${source}.${ordinal}
+            `;
+        }
+        return `
+            DELETE FROM ${this.qualifiedTableName} AS ${target}
+            USING ${sourceList}
+            WHERE ${conditions.join(' AND ')}
+            RETURNING ${target}.*, ${source}.${ordinal}
+        `;
+    }
+
+    /** Throws one `OptimisticLockError` listing every versioned id whose row was not removed. */
+    private assertVersionsMatched(rows: Array<{ index: number; id: EntityId<T>; expectedVersion?: number }>, removed: Set<number>): void {
+        const conflicts: VersionConflict[] = rows
+            .filter(({ index, expectedVersion }) => expectedVersion !== undefined && !removed.has(index))
+            .map(({ id, expectedVersion }) => ({ entityId: typeof id === 'object' ? this.getEntityId(id) : id, expectedVersion: expectedVersion! }));
+        if (conflicts.length > 0) {
+            throw new OptimisticLockError(this.entity.name, conflicts);
+        }
+    }
+
+    /** The assignments marking a row as soft-deleted, or `null` when the entity has no `@DeleteDateColumn`. */
+    protected buildSoftDeleteSet(deletedBy: string | undefined, params: QueryParameters, qualifier?: string): string | null {
+        const deleteDate = getColumnByRole(this.entity, 'deleteDate');
+        if (!deleteDate) return null;
+
+        const assignments = [`${quoteIdentifier(deleteDate.name)} = CURRENT_TIMESTAMP`];
+        const deletedByColumn = getColumnByRole(this.entity, 'deletedBy');
+        if (deletedByColumn) {
+            const actor = deletedBy ?? resolveActor(this.transactionManager);
+            assignments.push(`${quoteIdentifier(deletedByColumn.name)} = ${params.add(this.toDatabaseValue(deletedByColumn.propertyKey, actor))}`);
+        }
+        return assignments.join(', ') + this.buildManagedAssignments(params, qualifier);
+    }
+}
+
+export function createRepository<T>(entity: EntityTarget<T>, transactionManager: TransactionManager): EntityRepository<T> {
+    return new EntityRepository<T>(transactionManager, entity);
+}
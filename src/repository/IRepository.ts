@@ -1,13 +1,16 @@
+import { EntityId, ReadOptions, SoftDeleteOptions } from '../types';
+import { Where } from '../query/Where';
+
 export interface IRepository<T> {
-    findById(id: string): Promise<T | null>;
-    findAll(): Promise<T[]>;
-    findByCondition(condition: Partial<T>): Promise<T[]>;
+    findById(id: EntityId<T>, options?: ReadOptions): Promise<T | null>;
+    findAll(options?: ReadOptions): Promise<T[]>;
+    findByCondition(condition: Where<T>, options?: ReadOptions): Promise<T[]>;
     create(entity: T): Promise<T>;
-    update(id: string, entity: Partial<T>): Promise<T | null>;
-    delete(id: string): Promise<boolean>;
+    update(id: EntityId<T>, entity: Partial<T>): Promise<T | null>;
+    delete(id: EntityId<T>, deletedBy?: string): Promise<boolean>;
     executeRawQuery(query: string, params: any[]): Promise<any>;
-    count(condition?: Partial<T>): Promise<number>;
+    count(condition?: Where<T>, options?: SoftDeleteOptions): Promise<number>;
     bulkCreate(entities: T[]): Promise<T[]>;
     bulkUpdate(entities: Partial<T>[]): Promise<T[]>;
-    bulkDelete(ids: string[]): Promise<number>;
+    bulkDelete(ids: EntityId<T>[], deletedBy?: string): Promise<number>;
 }
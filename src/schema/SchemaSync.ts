@@ -1,31 +1,55 @@
 import { TransactionManager } from '../connection/TransactionManager';
-import { getEntityMetadata, getIndexMetadata } from '../decorators';
+import {
+    formatTableName,
+    getColumnMetadata,
+    getEntityMetadata,
+    getHistoryTableMetadata,
+    getIndexMetadata,
+    getJoinTableMetadata,
+    getTableMetadata,
+    hasTableMetadata,
+    isAudited,
+    EnumTypeMetadata,
+    renderColumnDefinition,
+    TableMetadata
+} from '../decorators';
 import { OrmError } from '../errors/OrmError';
+import { renderHistoryStatements } from '../audit/History';
 import { Logger, LogLevel } from '../utils/Logger';
+import { quoteIdentifier, quoteLiteral } from '../utils/Identifier';
+
+export type SyncTarget = Function | { entity: Function, tableName?: string };
 
 export class SchemaSync {
     constructor(
         private transactionManager: TransactionManager,
     ) { }
 
-    async sync(entities: { entity: Function, tableName: string }[]): Promise<void> {
-        for (const { entity, tableName } of entities) {
+    async sync(entities: SyncTarget[]): Promise<void> {
+        for (const target of entities) {
+            const { entity, table } = this.resolveTarget(target);
+            const tableName = formatTableName(table);
             Logger.info(`Starting schema sync for table: ${tableName}`);
             try {
                 await this.transactionManager.beginTransaction();
 
-                const tableExists = await this.checkTableExists(tableName);
+                await this.syncEnumTypes(entity);
+                const tableExists = await this.checkTableExists(table);
 
                 if (!tableExists) {
                     Logger.info(`-> Table does not exist. Attempting to create: ${tableName}`);
-                    await this.createTable(entity, tableName);
+                    await this.createTable(entity, table);
                     Logger.info(`-> Successfully created table: ${tableName}`);
                 } else {
                     Logger.info(`-> Table exists. Attempting to update schema: ${tableName}`);
-                    await this.updateTableSchema(entity, tableName);
+                    await this.updateTableSchema(entity, table);
                     Logger.info(`-> Successfully updated schema for table: ${tableName}`);
                 }
 
+                if (isAudited(entity)) {
+                    await this.syncHistoryTable(entity, table);
+                }
+
                 await this.transactionManager.commit();
                 Logger.info(`Committed transaction for table: ${tableName}\n`);
 
@@ -42,13 +66,122 @@ export class SchemaSync {
             }
         }
 
+        // Join tables reference both sides, so they are created once every entity table exists.
+        for (const target of entities) {
+            for (const joinTable of getJoinTableMetadata(this.resolveTarget(target).entity)) {
+                await this.syncJoinTable(joinTable.table, joinTable.definitions);
+            }
+        }
+
         Logger.info('All database tables synced successfully');
     }
 
-    private async createTable(entity: Function, tableName: string): Promise<void> {
+    private async syncJoinTable(table: TableMetadata, definitions: string[]): Promise<void> {
+        const tableName = formatTableName(table);
+        try {
+            await this.transactionManager.beginTransaction();
+
+            if (table.schema !== 'public') {
+                await this.transactionManager.getClient().query(`CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(table.schema)};`);
+            }
+            Logger.info(`Creating join table if missing`, { tableName });
+            await this.transactionManager.getClient().query(`
+                CREATE TABLE IF NOT EXISTS ${tableName} (
+                    ${definitions.join(',\n')}
+                );`);
+
+            await this.transactionManager.commit();
+        } catch (error: any) {
+            Logger.error(error, { message: `Failed to sync join table`, tableName });
+
+            try {
+                await this.transactionManager.rollback();
+            } catch (rollbackError) {
+                Logger.error(rollbackError as Error, { message: 'Rollback failed after sync error.' });
+            }
+
+            throw new OrmError(`Failed to sync join table: ${tableName}. Reason: ${error.message}`);
+        }
+    }
+
+    private resolveTarget(target: SyncTarget): { entity: Function, table: TableMetadata } {
+        if (typeof target === 'function') {
+            return { entity: target, table: getTableMetadata(target) };
+        }
+
+        if (target.tableName) {
+            const schema = hasTableMetadata(target.entity) ? getTableMetadata(target.entity).schema : 'public';
+            return { entity: target.entity, table: { name: target.tableName, schema } };
+        }
+
+        return { entity: target.entity, table: getTableMetadata(target.entity) };
+    }
+
+    /**
+     * Creates the enum types used by the entity's columns and adds members the TypeScript
+     * enum gained, keeping declaration order. Postgres cannot drop enum values, so members
+     * removed from the TypeScript enum are only reported.
+     */
+    private async syncEnumTypes(entity: Function): Promise<void> {
+        const enumTypes = new Map<string, EnumTypeMetadata>();
+        for (const column of getColumnMetadata(entity)) {
+            if (column.enum) enumTypes.set(column.type, column.enum);
+        }
+
+        for (const [typeName, enumType] of enumTypes) {
+            try {
+                const { rows } = await this.transactionManager.getClient().query(`
+                    SELECT COALESCE(array_agg(e.enumlabel::text ORDER BY e.enumsortorder) FILTER (WHERE e.enumlabel IS NOT NULL), '{}') AS labels
+                    FROM pg_type t
+                    JOIN pg_namespace n ON n.oid = t.typnamespace
+                    LEFT JOIN pg_enum e ON e.enumtypid = t.oid
+                    WHERE t.typname = $1 AND (n.nspname = $2 OR ($2::text IS NULL AND pg_type_is_visible(t.oid)))
+                    GROUP BY t.oid;
+                `, [enumType.typeName, enumType.schema ?? null]);
+
+                const labels = enumType.values.map(value => String(value));
+
+                if (rows.length === 0) {
+                    if (enumType.schema && enumType.schema !== 'public') {
+                        await this.transactionManager.getClient().query(`CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(enumType.schema)};`);
+                    }
+                    Logger.info(`Creating enum type`, { typeName });
+                    await this.transactionManager.getClient().query(
+                        `CREATE TYPE ${typeName} AS ENUM (${labels.map(label => quoteLiteral(label)).join(', ')});`
+                    );
+                    continue;
+                }
+
+                const existing: string[] = rows[0].labels;
+                for (const [index, label] of labels.entries()) {
+                    if (existing.includes(label)) continue;
+
+                    const position = index > 0
+                        ? `AFTER ${quoteLiteral(labels[index - 1])}`
+                        : existing.length > 0 ? `BEFORE ${quoteLiteral(existing[0])}` : '';
+                    Logger.info(`Adding enum value`, { typeName, label });
+                    await this.transactionManager.getClient().query(
+                        `ALTER TYPE ${typeName} ADD VALUE IF NOT EXISTS ${quoteLiteral(label)} ${position};`
+                    );
+                    existing.push(label);
+                }
+
+                const removed = existing.filter(label => !labels.includes(label));
+                if (removed.length > 0) {
+                    Logger.warn(`Enum type has values that are no longer declared`, { typeName, removed });
+                }
+            } catch (error: any) {
+                Logger.error(error, { message: `Failed to sync enum type`, typeName });
+                throw new OrmError(`Failed to sync enum type ${typeName}: ${error.message}`);
+            }
+        }
+    }
+
+    private async createTable(entity: Function, table: TableMetadata): Promise<void> {
+        const tableName = formatTableName(table);
         try {
             const metadata = getEntityMetadata(entity);
-            const indexMetaData = getIndexMetadata(entity, tableName);
+            const indexMetaData = getIndexMetadata(entity, table);
             Logger.info("Entity metadata retrieved", { tableName, columnsCount: metadata.columns.length, constraintsCount: metadata.constraints.length });
 
             const allDefinitions = [
@@ -56,8 +189,12 @@ export class SchemaSync {
                 ...metadata.constraints
             ].join(',\n');
 
+            if (table.schema !== 'public') {
+                await this.transactionManager.getClient().query(`CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(table.schema)};`);
+            }
+
             const query = `
-                CREATE TABLE IF NOT EXISTS "${tableName}" (
+                CREATE TABLE IF NOT EXISTS ${tableName} (
                     ${allDefinitions}
                 );`;
 
@@ -76,26 +213,40 @@ export class SchemaSync {
         }
     }
 
-    private async updateTableSchema(entity: Function, tableName: string): Promise<void> {
+    /** Creates the history table of an `@Audited` entity and (re)creates the trigger recording its changes. */
+    private async syncHistoryTable(entity: Function, table: TableMetadata): Promise<void> {
+        const historyTable = getHistoryTableMetadata(entity, table);
+        const historyTableName = formatTableName(historyTable);
         try {
-            const metadata = getEntityMetadata(entity);
-            const indexMetaData = getIndexMetadata(entity, tableName); // Indexes are generally safe to re-run with IF NOT EXISTS
+            Logger.info(`Syncing history table`, { tableName: formatTableName(table), historyTableName });
+            for (const statement of renderHistoryStatements(entity, table, historyTable)) {
+                await this.transactionManager.getClient().query(statement);
+            }
+        } catch (error: any) {
+            Logger.error(error, { message: `Failed to sync history table`, historyTableName });
+            throw new OrmError(`Failed to sync history table ${historyTableName}: ${error.message}`);
+        }
+    }
+
+    private async updateTableSchema(entity: Function, table: TableMetadata): Promise<void> {
+        const tableName = formatTableName(table);
+        try {
+            const columns = getColumnMetadata(entity);
+            const indexMetaData = getIndexMetadata(entity, table); // Indexes are generally safe to re-run with IF NOT EXISTS
 
             const currentSchemaQuery = `
                 SELECT column_name
                 FROM information_schema.columns 
-                WHERE table_name = $1 AND table_schema = 'public';
+                WHERE table_name = $1 AND table_schema = $2;
             `;
-            const { rows: currentColumns } = await this.transactionManager.getClient().query(currentSchemaQuery, [tableName]);
-
-            for (const column of metadata.columns) {
-                const columnName = column.split(' ')[0].replace(/"/g, '');
+            const { rows: currentColumns } = await this.transactionManager.getClient().query(currentSchemaQuery, [table.name, table.schema]);
 
-                const existingColumn = currentColumns.find(c => c.column_name === columnName);
+            for (const column of columns) {
+                const existingColumn = currentColumns.find(c => c.column_name === column.name);
 
                 if (!existingColumn) {
-                    const addColumnQuery = `ALTER TABLE "${tableName}" ADD COLUMN ${column};`;
-                    Logger.info(`Adding new column`, { tableName, columnName });
+                    const addColumnQuery = `ALTER TABLE ${tableName} ADD COLUMN ${renderColumnDefinition(column)};`;
+                    Logger.info(`Adding new column`, { tableName, columnName: column.name });
                     await this.transactionManager.getClient().query(addColumnQuery);
                 }
             }
@@ -112,16 +263,17 @@ export class SchemaSync {
         }
     }
 
-    private async checkTableExists(tableName: string): Promise<boolean> {
+    private async checkTableExists(table: TableMetadata): Promise<boolean> {
+        const tableName = formatTableName(table);
         try {
             const query = `
                 SELECT EXISTS (
                     SELECT FROM information_schema.tables 
-                    WHERE table_schema = 'public' 
-                    AND table_name = $1
+                    WHERE table_schema = $1 
+                    AND table_name = $2
                 );
             `;
-            const { rows } = await this.transactionManager.getClient().query(query, [tableName]);
+            const { rows } = await this.transactionManager.getClient().query(query, [table.schema, table.name]);
             return rows[0].exists;
         } catch (error: any) {
             Logger.error(error, { message: `Failed to check if table exists`, tableName });
@@ -0,0 +1,80 @@
+import { TransactionManager } from '../connection/TransactionManager';
+import { EntityHookKind, getEntityHooks } from '../decorators';
+import { EntityId } from '../types';
+
+export type EntityEventKind = EntityHookKind | 'afterRemove';
+
+export interface EntityEvent<T = any> {
+    /** The entity class the repository was created for. */
+    target: Function;
+    /**
+     * The values about to be written for `beforeInsert` and `beforeUpdate`, the stored row
+     * otherwise. `afterRemove` gets the row as it was removed or soft-deleted.
+     */
+    entity: T;
+    /** The primary key, for updates and removals. */
+    id?: EntityId<T>;
+    /** The transaction running the write; queries through it commit or roll back with it. */
+    transactionManager: TransactionManager;
+}
+
+/**
+ * Observes repository reads and writes of every entity, or of the class `listenTo` returns
+ * and its subclasses. Listeners run after the entity's own hooks and may be async; an error
+ * thrown by one rolls back the write.
+ */
+export interface EntitySubscriber<T = any> {
+    listenTo?(): Function;
+    beforeInsert?(event: EntityEvent<T>): void | Promise<void>;
+    afterInsert?(event: EntityEvent<T>): void | Promise<void>;
+    beforeUpdate?(event: EntityEvent<Partial<T>>): void | Promise<void>;
+    afterUpdate?(event: EntityEvent<T>): void | Promise<void>;
+    beforeRemove?(event: EntityEvent<T>): void | Promise<void>;
+    afterRemove?(event: EntityEvent<T>): void | Promise<void>;
+    afterLoad?(event: EntityEvent<T>): void | Promise<void>;
+}
+
+const subscribers: EntitySubscriber[] = [];
+
+/** Adds a subscriber to the global registry. Returns a function that removes it again. */
+export function registerSubscriber(subscriber: EntitySubscriber): () => void {
+    subscribers.push(subscriber);
+    return () => removeSubscriber(subscriber);
+}
+
+export function removeSubscriber(subscriber: EntitySubscriber): void {
+    const index = subscribers.indexOf(subscriber);
+    if (index !== -1) subscribers.splice(index, 1);
+}
+
+function getSubscribers(target: Function, kind: EntityEventKind): EntitySubscriber[] {
+    return subscribers.filter(subscriber => {
+        if (typeof subscriber[kind] !== 'function') return false;
+        const listenTo = subscriber.listenTo?.();
+        return !listenTo || target === listenTo || target.prototype instanceof listenTo;
+    });
+}
+
+/** Whether any entity hook or subscriber listens for one of `kinds` on `target`. */
+export function hasEntityListeners(target: Function, kinds: EntityEventKind[]): boolean {
+    return kinds.some(kind =>
+        (kind !== 'afterRemove' && getEntityHooks(target, kind).length > 0) || getSubscribers(target, kind).length > 0
+    );
+}
+
+/**
+ * Runs the entity's hooks for `kind`, with `this` bound to the event's entity, then the
+ * matching subscribers in registration order. Hooks are looked up on the entity class, so
+ * they also run for plain objects passed to the repository.
+ */
+export async function dispatchEntityEvent(kind: EntityEventKind, event: EntityEvent): Promise<void> {
+    if (kind !== 'afterRemove') {
+        for (const method of getEntityHooks(event.target, kind)) {
+            await event.target.prototype[method].call(event.entity);
+        }
+    }
+
+    for (const subscriber of getSubscribers(event.target, kind)) {
+        await (subscriber[kind] as (event: EntityEvent) => void | Promise<void>).call(subscriber, event);
+    }
+}
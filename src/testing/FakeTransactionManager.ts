@@ -0,0 +1,68 @@
+import { QueryResultRow } from 'pg';
+import { Writable } from 'stream';
+import { TransactionManager } from '../connection/TransactionManager';
+
+export interface RecordedQuery {
+    /** The query text with whitespace runs collapsed to single spaces. */
+    text: string;
+    values: any[];
+}
+
+/** Answers one query with its result rows; throwing fails the query. */
+export type Respond = (text: string, values: any[]) => QueryResultRow[];
+
+export interface FakeTransactionManagerOptions {
+    /** What `isActive()` returns. Defaults to `true`. */
+    active?: boolean;
+    /** What `getActor()` returns. Defaults to `null`. */
+    actor?: string | null;
+}
+
+/**
+ * A `TransactionManager` whose transaction and standalone clients are one fake client
+ * answering each query with `respond`. Queries and transaction boundaries (`BEGIN`,
+ * `COMMIT`, `ROLLBACK`) are recorded in `queries`, in order, and the data written to
+ * `COPY ... FROM STDIN` streams in `copied`.
+ */
+export function fakeTransactionManager(respond: Respond = () => [], options: FakeTransactionManagerOptions = {}) {
+    const queries: RecordedQuery[] = [];
+    const copied: string[] = [];
+    const release = jest.fn();
+    const client = {
+        release,
+        query: (config: string | { text: string; values?: any[] }, params: any[] = []): any => {
+            const text = (typeof config === 'string' ? config : config.text).replace(/\s+/g, ' ').trim();
+            const values = typeof config === 'string' ? params : config.values ?? [];
+            queries.push({ text, values });
+
+            // `COPY ... FROM STDIN` streams are answered with a stream collecting what is written.
+            if (config instanceof Writable) {
+                return new Writable({
+                    write(chunk: Buffer, _encoding, done) {
+                        copied.push(chunk.toString('utf8'));
+                        done();
+                    }
+                });
+            }
+            return (async () => {
+                const rows = respond(text, values);
+                return { rows, rowCount: rows.length };
+            })();
+        }
+    };
+    const boundary = (text: string) => async () => {
+        queries.push({ text, values: [] });
+    };
+
+    const transactionManager = {
+        getClient: () => client,
+        getStandaloneClient: async () => client,
+        getTransactionId: () => 'test',
+        isActive: () => options.active ?? true,
+        getActor: () => options.actor ?? null,
+        beginTransaction: boundary('BEGIN'),
+        commit: boundary('COMMIT'),
+        rollback: boundary('ROLLBACK')
+    } as unknown as TransactionManager;
+    return { transactionManager, client, queries, copied, release };
+}
@@ -0,0 +1,88 @@
+import { randomBytes } from 'crypto';
+import { Column, Entity, PrimaryGeneratedColumn } from '../decorators';
+import { OrmError } from '../errors/OrmError';
+import { createRepository } from '../repository/EntityRepository';
+import { fakeTransactionManager } from '../testing/FakeTransactionManager';
+import { EncryptionTransformer, StaticKeyProvider } from './EncryptionTransformer';
+
+const oldKey = randomBytes(32);
+const newKey = randomBytes(32);
+
+const encrypted = new EncryptionTransformer(new StaticKeyProvider({ old: oldKey }, 'old'));
+
+@Entity({ name: 'patients' })
+class Patient {
+    @PrimaryGeneratedColumn('increment')
+    id!: number;
+
+    @Column({ type: 'text', transformer: encrypted })
+    notes!: string;
+}
+
+describe('EncryptionTransformer', () => {
+    it('round-trips values, including empty and non-ASCII ones', () => {
+        for (const value of ['secret', '', 'naïve ☕ 秘密']) {
+            expect(encrypted.from(encrypted.to(value))).toBe(value);
+        }
+    });
+
+    it('stores the format version and key id and uses a fresh IV each time', () => {
+        const first = encrypted.to('secret');
+
+        expect(first).toMatch(/^v1:old:[A-Za-z0-9+/]+=*$/);
+        expect(encrypted.to('secret')).not.toBe(first);
+    });
+
+    it('encrypts equal values equally in deterministic mode', () => {
+        const deterministic = new EncryptionTransformer(new StaticKeyProvider({ old: oldKey }, 'old'), { deterministic: true });
+
+        expect(deterministic.to('secret')).toBe(deterministic.to('secret'));
+        expect(deterministic.to('secret')).not.toBe(deterministic.to('Secret'));
+        expect(deterministic.from(deterministic.to('secret'))).toBe('secret');
+    });
+
+    it('reads values written under older keys and re-encrypts them with the current one', () => {
+        const stored = encrypted.to('secret');
+        const rotated = new EncryptionTransformer(new StaticKeyProvider({ old: oldKey, new: newKey.toString('base64') }, 'new'));
+
+        expect(rotated.from(stored)).toBe('secret');
+        expect(rotated.needsRotation(stored)).toBe(true);
+
+        const rewritten = rotated.rotate(stored);
+        expect(rewritten.startsWith('v1:new:')).toBe(true);
+        expect(rotated.needsRotation(rewritten)).toBe(false);
+        expect(rotated.rotate(rewritten)).toBe(rewritten);
+        expect(rotated.from(rewritten)).toBe('secret');
+    });
+
+    it('rejects tampered values and values it cannot decrypt', () => {
+        const [version, keyId, payload] = encrypted.to('secret').split(':');
+        const bytes = Buffer.from(payload, 'base64');
+        bytes[bytes.length - 1] ^= 1;
+
+        expect(() => encrypted.from(`${version}:${keyId}:${bytes.toString('base64')}`))
+            .toThrow('Failed to decrypt value encrypted with key "old"');
+        expect(() => encrypted.from('v1:missing:' + payload)).toThrow('Unknown encryption key "missing"');
+        expect(() => encrypted.from('plain text')).toThrow('Value is not in the encrypted column format');
+        expect(() => encrypted.from('v1:old:AAAA')).toThrow('Value is not in the encrypted column format');
+    });
+
+    it('rejects unusable keys', () => {
+        expect(() => new StaticKeyProvider({ a: oldKey }, 'b')).toThrow(OrmError);
+        expect(() => new EncryptionTransformer(new StaticKeyProvider({ short: randomBytes(16) }, 'short')).to('x'))
+            .toThrow('Encryption key "short" must be 32 bytes');
+        expect(() => new EncryptionTransformer(new StaticKeyProvider({ 'a:b': oldKey }, 'a:b')).to('x'))
+            .toThrow('Encryption key id "a:b" must not contain ":"');
+    });
+
+    it('encrypts column values on write and decrypts them on read', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        const { transactionManager, queries } = fakeTransactionManager((text, values) =>
+            text.startsWith('INSERT') ? [{ id: 1, notes: values[0] }] : []);
+
+        const created = await createRepository(Patient, transactionManager).create({ notes: 'allergic to peanuts' } as Patient);
+
+        expect(queries[0].values[0]).toMatch(/^v1:old:/);
+        expect(created.notes).toBe('allergic to peanuts');
+    });
+});
@@ -0,0 +1,131 @@
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from 'crypto';
+import { OrmError } from '../errors/OrmError';
+import { ValueTransformer } from './ValueTransformer';
+
+const FORMAT_VERSION = 'v1';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/** Supplies AES-256 keys by id. New values are encrypted with `currentKeyId`. */
+export interface EncryptionKeyProvider {
+    readonly currentKeyId: string;
+    getKey(keyId: string): Buffer | undefined;
+}
+
+/** Keys held in memory, given as 32 byte buffers or base64 strings. */
+export class StaticKeyProvider implements EncryptionKeyProvider {
+    private readonly keys = new Map<string, Buffer>();
+
+    constructor(keys: Record<string, Buffer | string>, readonly currentKeyId: string) {
+        for (const [keyId, key] of Object.entries(keys)) {
+            this.keys.set(keyId, Buffer.isBuffer(key) ? key : Buffer.from(key, 'base64'));
+        }
+        if (!this.keys.has(currentKeyId)) {
+            throw new OrmError(`Current encryption key "${currentKeyId}" is not among the provided keys`);
+        }
+    }
+
+    getKey(keyId: string): Buffer | undefined {
+        return this.keys.get(keyId);
+    }
+}
+
+export interface EncryptionTransformerOptions {
+    /**
+     * Derives the IV from the plaintext so equal values encrypt equally, which is what lets
+     * filters match. It reveals which rows share a value, so only enable it where needed.
+     */
+    deterministic?: boolean;
+}
+
+/**
+ * Encrypts string values with AES-256-GCM. Stored values look like `v1:<keyId>:<base64>`,
+ * so values written under older keys stay readable after `currentKeyId` changes; use
+ * `needsRotation` and `rotate` to re-encrypt them. Deterministic filters only match
+ * values written with the current key.
+ */
+export class EncryptionTransformer implements ValueTransformer<string, string> {
+    private readonly ivKeys = new Map<string, Buffer>();
+
+    constructor(private readonly keyProvider: EncryptionKeyProvider, private readonly options: EncryptionTransformerOptions = {}) { }
+
+    to(value: string): string {
+        const keyId = this.keyProvider.currentKeyId;
+        if (keyId.includes(':')) {
+            throw new OrmError(`Encryption key id ${JSON.stringify(keyId)} must not contain ":"`);
+        }
+
+        const key = this.getKey(keyId);
+        const plaintext = Buffer.from(String(value), 'utf8');
+        const iv = this.options.deterministic
+            ? createHmac('sha256', this.getIvKey(keyId, key)).update(plaintext).digest().subarray(0, IV_LENGTH)
+            : randomBytes(IV_LENGTH);
+
+        const cipher = createCipheriv('aes-256-gcm', key, iv);
+        const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+        const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+
+        return `${FORMAT_VERSION}:${keyId}:${payload.toString('base64')}`;
+    }
+
+    from(value: string): string {
+        const { keyId, payload } = this.parse(value);
+        const key = this.getKey(keyId);
+
+        try {
+            const decipher = createDecipheriv('aes-256-gcm', key, payload.subarray(0, IV_LENGTH));
+            decipher.setAuthTag(payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+            return Buffer.concat([
+                decipher.update(payload.subarray(IV_LENGTH + TAG_LENGTH)),
+                decipher.final()
+            ]).toString('utf8');
+        } catch {
+            throw new OrmError(`Failed to decrypt value encrypted with key "${keyId}"`);
+        }
+    }
+
+    /** Whether a stored value was encrypted with a key other than the current one. */
+    needsRotation(value: string): boolean {
+        return this.parse(value).keyId !== this.keyProvider.currentKeyId;
+    }
+
+    /** Re-encrypts a stored value with the current key. */
+    rotate(value: string): string {
+        return this.needsRotation(value) ? this.to(this.from(value)) : value;
+    }
+
+    private parse(value: string): { keyId: string; payload: Buffer } {
+        const [version, keyId, payload, ...rest] = String(value).split(':');
+        if (version !== FORMAT_VERSION || !keyId || !payload || rest.length > 0) {
+            throw new OrmError('Value is not in the encrypted column format');
+        }
+
+        const bytes = Buffer.from(payload, 'base64');
+        if (bytes.length < IV_LENGTH + TAG_LENGTH) {
+            throw new OrmError('Value is not in the encrypted column format');
+        }
+        return { keyId, payload: bytes };
+    }
+
+    private getKey(keyId: string): Buffer {
+        const key = this.keyProvider.getKey(keyId);
+        if (!key) {
+            throw new OrmError(`Unknown encryption key "${keyId}"`);
+        }
+        if (key.length !== KEY_LENGTH) {
+            throw new OrmError(`Encryption key "${keyId}" must be ${KEY_LENGTH} bytes`);
+        }
+        return key;
+    }
+
+    /** A separate key for deriving deterministic IVs, so the AES key is not used for both. */
+    private getIvKey(keyId: string, key: Buffer): Buffer {
+        let ivKey = this.ivKeys.get(keyId);
+        if (!ivKey) {
+            ivKey = Buffer.from(hkdfSync('sha256', key, Buffer.alloc(0), 'peculiar-orm deterministic iv', KEY_LENGTH));
+            this.ivKeys.set(keyId, ivKey);
+        }
+        return ivKey;
+    }
+}
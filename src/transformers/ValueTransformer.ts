@@ -0,0 +1,67 @@
+import { OrmError } from '../errors/OrmError';
+
+/**
+ * Converts a property value to the value stored in the column (`to`) and back (`from`).
+ * Transformers never see `null` or `undefined`; those are stored and read as they are.
+ */
+export interface ValueTransformer<E = any, D = any> {
+    to(value: E): D;
+    from(value: D): E;
+}
+
+/** Applies the transformers in declaration order. */
+export function transformToDatabase(value: any, transformer?: ValueTransformer | ValueTransformer[]): any {
+    if (!transformer || value === null || value === undefined) return value;
+    const transformers = Array.isArray(transformer) ? transformer : [transformer];
+    return transformers.reduce((current, next) => current === null || current === undefined ? current : next.to(current), value);
+}
+
+/** Applies the transformers in reverse declaration order. */
+export function transformFromDatabase(value: any, transformer?: ValueTransformer | ValueTransformer[]): any {
+    if (!transformer || value === null || value === undefined) return value;
+    const transformers = Array.isArray(transformer) ? transformer : [transformer];
+    return transformers.reduceRight((current, next) => current === null || current === undefined ? current : next.from(current), value);
+}
+
+/**
+ * Stores a value as JSON text. `revive` rebuilds value objects such as `Money` from the
+ * parsed data; without it the parsed data is returned.
+ */
+export class JsonTransformer<E = any> implements ValueTransformer<E, string> {
+    constructor(private readonly revive?: (data: any) => E) { }
+
+    to(value: E): string {
+        return JSON.stringify(value);
+    }
+
+    from(value: string): E {
+        const data = typeof value === 'string' ? JSON.parse(value) : value;
+        return this.revive ? this.revive(data) : data;
+    }
+}
+
+/**
+ * Packs an array of strings into a single delimited text value, e.g. `['a', 'b']` as `a,b`.
+ * Elements containing the separator are rejected since they could not be unpacked.
+ */
+export class DelimitedTransformer implements ValueTransformer<string[], string> {
+    constructor(private readonly separator: string = ',') {
+        if (separator.length === 0) {
+            throw new OrmError('DelimitedTransformer needs a non-empty separator');
+        }
+    }
+
+    to(value: string[]): string {
+        return value.map(element => {
+            const text = String(element);
+            if (text.includes(this.separator)) {
+                throw new OrmError(`Cannot pack ${JSON.stringify(text)}: it contains the separator ${JSON.stringify(this.separator)}`);
+            }
+            return text;
+        }).join(this.separator);
+    }
+
+    from(value: string): string[] {
+        return value === '' ? [] : value.split(this.separator);
+    }
+}
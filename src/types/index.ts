@@ -1,4 +1,5 @@
 import { PoolConfig } from 'pg';
+import { Where } from '../query/Where';
 
 export enum DatabaseIsolationLevel {
     READ_UNCOMMITTED = 'READ UNCOMMITTED',
@@ -13,3 +14,64 @@ export interface ConnectionOptions {
 }
 
 export interface IConnectionConfig extends PoolConfig { }
+
+export type EntityTarget<T> = new (...args: any[]) => T;
+
+/** A bare value for single column primary keys, or an object of key properties for composite keys. */
+export type EntityId<T = any> = string | number | Partial<T>;
+
+export interface SoftDeleteOptions {
+    /** Includes soft-deleted rows. */
+    withDeleted?: boolean;
+    /** Returns soft-deleted rows only. */
+    onlyDeleted?: boolean;
+}
+
+export interface ReadOptions extends SoftDeleteOptions {
+    /** Skips hydration: rows come back as plain objects keyed by property, with the driver's values. */
+    raw?: boolean;
+    /**
+     * Relations to load, with dotted paths for nested ones such as `author.profile`.
+     * Eager relations of the read entity are always loaded.
+     */
+    relations?: string[];
+}
+
+export interface StreamOptions {
+    /** Rows fetched per `FETCH` round trip. Defaults to 500. */
+    batchSize?: number;
+    /** Query timeout for each `FETCH`, overriding the pool default; `0` disables it. */
+    fetchTimeoutMs?: number;
+}
+
+export interface UpsertOptions<T> {
+    /**
+     * Properties of the unique constraint that detects the conflict. Defaults to the primary
+     * key, or to the first unique column or index whose properties are all given.
+     */
+    conflictTarget?: Array<keyof T & string>;
+    /** Properties overwritten on conflict. Defaults to every inserted property outside the conflict target. */
+    update?: Array<keyof T & string>;
+    /** Leaves conflicting rows untouched (`ON CONFLICT DO NOTHING`). */
+    doNothing?: boolean;
+    /**
+     * Only updates existing rows matching this condition. Raw SQL may reference the
+     * existing row by table name and the proposed row as `excluded`, with `:name` parameters.
+     */
+    where?: Where<T> | string;
+    whereValues?: Record<string, any>;
+}
+
+export interface CopyOptions<T> {
+    /** Properties to copy, in order. Defaults to every column; `copyFrom` skips generated keys. */
+    columns?: Array<keyof T & string>;
+    /** Defaults to `csv`. `binary` is faster but only covers scalar types. */
+    format?: 'csv' | 'binary';
+    /** Query timeout for the whole `COPY`, overriding the pool default; `0` disables it. */
+    timeoutMs?: number;
+}
+
+export interface CopyToOptions<T> extends CopyOptions<T>, SoftDeleteOptions {
+    /** Emits a header line with the column names (csv only). */
+    header?: boolean;
+}
@@ -0,0 +1,26 @@
+import { OrmError } from '../errors/OrmError';
+
+/**
+ * Quotes a SQL identifier, doubling embedded quotes as Postgres expects.
+ * NUL characters cannot be represented in an identifier and are rejected.
+ */
+export function quoteIdentifier(identifier: string): string {
+    if (identifier.length === 0 || identifier.includes('\0')) {
+        throw new OrmError(`Invalid SQL identifier: ${JSON.stringify(identifier)}`);
+    }
+    return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quotes a string literal for statements that cannot take bind parameters, such as `COPY`.
+ * Backslashes switch to the `E''` form so the result does not depend on
+ * `standard_conforming_strings`.
+ */
+export function quoteLiteral(value: string): string {
+    if (value.includes('\0')) {
+        throw new OrmError('String literals cannot contain NUL characters');
+    }
+
+    const quoted = `'${value.replace(/'/g, "''")}'`;
+    return value.includes('\\') ? `E${quoted.replace(/\\/g, '\\\\')}` : quoted;
+}
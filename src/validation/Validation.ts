@@ -0,0 +1,153 @@
+import 'reflect-metadata';
+import type { ColumnMetadata } from '../decorators';
+import { ValidationFailure } from '../errors/OrmError';
+
+/** Checks one property value; `entity` holds the other values being written. */
+export type ValidatorFunction = (value: any, entity: Record<string, any>) => boolean | Promise<boolean>;
+
+export interface ValidationRule {
+    /** Reported as the failing rule, such as `length` or `email`. */
+    name: string;
+    validate: ValidatorFunction;
+    message: string;
+    /** Whether the rule also checks `null` and unset values, which the others skip. */
+    checksMissing?: boolean;
+}
+
+interface ValidationRegistration {
+    propertyKey: string;
+    rule: ValidationRule;
+}
+
+// Deliberately simple: one `@`, no whitespace, and a dot in the domain.
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function registerRule(rule: ValidationRule) {
+    return function (target: any, propertyKey: string): void {
+        const rules: ValidationRegistration[] = Reflect.getMetadata('validators', target.constructor) || [];
+        // Decorators apply bottom-up; prepending keeps each property's rules in source order.
+        rules.unshift({ propertyKey, rule });
+        Reflect.defineMetadata('validators', rules, target.constructor);
+    };
+}
+
+/** Rejects `null`, unset values and empty strings. On updates, only setting the property to one of them fails. */
+export function IsRequired(message?: string) {
+    return function (target: any, propertyKey: string): void {
+        registerRule({
+            name: 'required',
+            validate: value => value !== null && value !== undefined && value !== '',
+            message: message || `${propertyKey} is required`,
+            checksMissing: true
+        })(target, propertyKey);
+    };
+}
+
+/** Bounds the length of a string or array. */
+export function Length(min: number, max?: number, message?: string) {
+    return function (target: any, propertyKey: string): void {
+        const bounds = max === undefined ? `at least ${min}` : min === max ? `exactly ${min}` : `between ${min} and ${max}`;
+        registerRule({
+            name: 'length',
+            validate: value => (typeof value === 'string' || Array.isArray(value))
+                && value.length >= min && (max === undefined || value.length <= max),
+            message: message || `${propertyKey} must be ${bounds} characters long`
+        })(target, propertyKey);
+    };
+}
+
+export function Min(min: number | bigint, message?: string) {
+    return function (target: any, propertyKey: string): void {
+        registerRule({
+            name: 'min',
+            validate: value => (typeof value === 'number' || typeof value === 'bigint') && value >= min,
+            message: message || `${propertyKey} must be at least ${min}`
+        })(target, propertyKey);
+    };
+}
+
+export function Max(max: number | bigint, message?: string) {
+    return function (target: any, propertyKey: string): void {
+        registerRule({
+            name: 'max',
+            validate: value => (typeof value === 'number' || typeof value === 'bigint') && value <= max,
+            message: message || `${propertyKey} must be at most ${max}`
+        })(target, propertyKey);
+    };
+}
+
+export function Matches(pattern: RegExp, message?: string) {
+    return function (target: any, propertyKey: string): void {
+        registerRule({
+            name: 'matches',
+            // A fresh RegExp keeps global patterns from carrying `lastIndex` between values.
+            validate: value => typeof value === 'string' && new RegExp(pattern.source, pattern.flags).test(value),
+            message: message || `${propertyKey} must match ${pattern}`
+        })(target, propertyKey);
+    };
+}
+
+export function IsEmail(message?: string) {
+    return function (target: any, propertyKey: string): void {
+        registerRule({
+            name: 'email',
+            validate: value => typeof value === 'string' && EMAIL_PATTERN.test(value),
+            message: message || `${propertyKey} must be an email address`
+        })(target, propertyKey);
+    };
+}
+
+/** A custom rule. `validate` may be async; like the built-in rules it is skipped for `null` and unset values. */
+export function Validate(validate: ValidatorFunction, options: { name?: string; message?: string } = {}) {
+    return function (target: any, propertyKey: string): void {
+        registerRule({
+            name: options.name || 'custom',
+            validate,
+            message: options.message || `${propertyKey} is invalid`
+        })(target, propertyKey);
+    };
+}
+
+/** The rules declared on one property of a class, in declaration order. */
+export function getValidationRules(target: Function, propertyKey: string): ValidationRule[] {
+    const rules: ValidationRegistration[] = Reflect.getMetadata('validators', target) || [];
+    return rules.filter(rule => rule.propertyKey === propertyKey).map(({ rule }) => rule);
+}
+
+/**
+ * Checks `values`, keyed by column property paths, against the columns' rules and returns
+ * every failure. A property failing `@IsRequired` reports nothing else. With `partial`, as
+ * for updates, properties left unset are not checked.
+ */
+export async function validateValues(
+    columns: ColumnMetadata[],
+    values: Record<string, any>,
+    options: { partial?: boolean; index?: number } = {}
+): Promise<ValidationFailure[]> {
+    const failures: ValidationFailure[] = [];
+    for (const column of columns) {
+        if (!column.validators) continue;
+
+        const value = values[column.propertyKey];
+        if (options.partial && value === undefined) continue;
+
+        const fail = (rule: ValidationRule) => failures.push({
+            property: column.propertyKey,
+            rule: rule.name,
+            message: rule.message,
+            ...(options.index !== undefined ? { index: options.index } : {})
+        });
+
+        const required = column.validators.find(rule => rule.checksMissing);
+        if (required && !await required.validate(value, values)) {
+            fail(required);
+            continue;
+        }
+
+        if (value === null || value === undefined) continue;
+        for (const rule of column.validators) {
+            if (rule !== required && !await rule.validate(value, values)) fail(rule);
+        }
+    }
+    return failures;
+}